@@ -9,8 +9,11 @@ import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import UploadPage from "@/pages/upload";
+import ProjectsPage from "@/pages/projects";
+import ProjectDetailPage from "@/pages/project-detail";
 import TranscriptionsPage from "@/pages/transcriptions";
 import TranscriptionDetailPage from "@/pages/transcription-detail";
+import TranscriptionRedactionPage from "@/pages/transcription-redaction";
 import AnalysesPage from "@/pages/analyses";
 import NewAnalysisPage from "@/pages/new-analysis";
 import AnalysisDetailPage from "@/pages/analysis-detail";
@@ -42,8 +45,11 @@ function Router() {
         <>
           <Route path="/" component={Dashboard} />
           <Route path="/upload" component={UploadPage} />
+          <Route path="/projetos" component={ProjectsPage} />
+          <Route path="/projetos/:id" component={ProjectDetailPage} />
           <Route path="/transcricoes" component={TranscriptionsPage} />
           <Route path="/transcricoes/:id" component={TranscriptionDetailPage} />
+          <Route path="/transcricoes/:id/anonimizacao" component={TranscriptionRedactionPage} />
           <Route path="/analises" component={AnalysesPage} />
           <Route path="/analises/nova" component={NewAnalysisPage} />
           <Route path="/analises/:id" component={AnalysisDetailPage} />
@@ -0,0 +1,126 @@
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { codebookQueryKey, orderCodebook } from "@/components/codebook";
+import type { Code, GridCategory, Project } from "@shared/schema";
+
+// Same limit as the server
+export const MAX_GRID_CATEGORIES = 40;
+
+// Every category needs a name and an operational definition, and no two may share a name
+export function isCategoryGridComplete(grid: GridCategory[]): boolean {
+  const names = grid.map((c) => c.name.trim().toLowerCase());
+  return grid.length > 0 &&
+    grid.every((c) => c.name.trim() && c.definition.trim()) &&
+    new Set(names).size === names.length;
+}
+
+interface CategoryGridEditorProps {
+  grid: GridCategory[];
+  onChange: (grid: GridCategory[]) => void;
+  projects: Project[];
+}
+
+// Closed grid of a deductive analysis, typed in or taken from a project's codebook
+export function CategoryGridEditor({ grid, onChange, projects }: CategoryGridEditorProps) {
+  const { toast } = useToast();
+
+  const updateCategory = (index: number, change: Partial<GridCategory>) => {
+    onChange(grid.map((category, i) => (i === index ? { ...category, ...change } : category)));
+  };
+
+  const importCodebook = async (projectId: string) => {
+    try {
+      const codes = await queryClient.fetchQuery<Code[]>({ queryKey: codebookQueryKey(Number(projectId)) });
+      if (codes.length === 0) {
+        toast({ title: "Livro de códigos vazio", description: "Este projeto ainda não tem códigos." });
+        return;
+      }
+      // Rows already filled in are kept; codes with the same name are not repeated
+      const kept = grid.filter((c) => c.name.trim() || c.definition.trim());
+      const names = new Set(kept.map((c) => c.name.trim().toLowerCase()));
+      const imported = orderCodebook(codes)
+        .map(({ code }) => ({ name: code.name, definition: code.definition || "" }))
+        .filter((c) => !names.has(c.name.toLowerCase()));
+      onChange([...kept, ...imported].slice(0, MAX_GRID_CATEGORIES));
+    } catch {
+      toast({
+        title: "Erro ao importar",
+        description: "Não foi possível carregar o livro de códigos.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {projects.length > 0 && (
+        <Select value="" onValueChange={importCodebook}>
+          <SelectTrigger data-testid="select-import-codebook">
+            <SelectValue placeholder="Importar do livro de códigos de um projeto" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id.toString()}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {grid.map((category, index) => (
+        <div key={index} className="flex gap-2 rounded-md border p-3" data-testid={`row-grid-category-${index}`}>
+          <div className="flex-1 space-y-2">
+            <Input
+              value={category.name}
+              onChange={(e) => updateCategory(index, { name: e.target.value })}
+              placeholder="Nome da categoria"
+              maxLength={100}
+              data-testid={`input-grid-name-${index}`}
+            />
+            <Textarea
+              value={category.definition}
+              onChange={(e) => updateCategory(index, { definition: e.target.value })}
+              placeholder="Definição operacional: quando uma unidade de registro pertence a esta categoria"
+              className="min-h-[60px]"
+              maxLength={2000}
+              data-testid={`input-grid-definition-${index}`}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(grid.filter((_, i) => i !== index))}
+            disabled={grid.length === 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...grid, { name: "", definition: "" }])}
+        disabled={grid.length >= MAX_GRID_CATEGORIES}
+        data-testid="button-add-grid-category"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Adicionar categoria
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Loader2, Tags, Check } from "lucide-react";
+import type { Code } from "@shared/schema";
+
+// Offered for new codes, handed out in this order
+export const CODE_COLORS = [
+  "#2563eb", "#dc2626", "#16a34a", "#d97706", "#9333ea",
+  "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4f46e5",
+];
+
+export function codebookQueryKey(projectId: number) {
+  return ["/api/projects", projectId.toString(), "codes"];
+}
+
+// Categories (codes without a parent) each followed by their codes, both alphabetically
+export function orderCodebook(codes: Code[]): { code: Code; depth: number }[] {
+  const ordered: { code: Code; depth: number }[] = [];
+  const ids = new Set(codes.map((c) => c.id));
+  for (const root of codes.filter((c) => !c.parentId || !ids.has(c.parentId))) {
+    ordered.push({ code: root, depth: 0 });
+    for (const child of codes.filter((c) => c.parentId === root.id)) {
+      ordered.push({ code: child, depth: 1 });
+    }
+  }
+  return ordered;
+}
+
+export function CodeSwatch({ color }: { color: string }) {
+  return <span className="inline-block h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: color }} />;
+}
+
+type CodeFormData = { name: string; definition: string | null; parentId: number | null; color: string };
+
+interface CodeFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  codes: Code[];
+  editing?: Code;
+  isPending: boolean;
+  onSubmit: (data: CodeFormData) => void;
+}
+
+function CodeFormDialog({ open, onOpenChange, codes, editing, isPending, onSubmit }: CodeFormDialogProps) {
+  const [name, setName] = useState("");
+  const [definition, setDefinition] = useState("");
+  const [parentId, setParentId] = useState("none");
+  const [color, setColor] = useState(CODE_COLORS[0]);
+
+  useEffect(() => {
+    if (open) {
+      setName(editing?.name || "");
+      setDefinition(editing?.definition || "");
+      setParentId(editing?.parentId ? editing.parentId.toString() : "none");
+      setColor(editing?.color || CODE_COLORS[codes.length % CODE_COLORS.length]);
+    }
+  }, [open]);
+
+  // Two levels only: a category cannot go under another one, nor can a code that has codes under it
+  const hasChildren = !!editing && codes.some((c) => c.parentId === editing.id);
+  const parentOptions = codes.filter((c) => !c.parentId && c.id !== editing?.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      definition: definition.trim() || null,
+      parentId: parentId === "none" ? null : Number(parentId),
+      color,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar código" : "Novo código"}</DialogTitle>
+            <DialogDescription>
+              A definição operacional diz quando o código se aplica a um trecho.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="code-name">Nome</Label>
+            <Input
+              id="code-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Dificuldade financeira"
+              maxLength={100}
+              autoFocus
+              data-testid="input-code-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="code-definition">Definição</Label>
+            <Textarea
+              id="code-definition"
+              value={definition}
+              onChange={(e) => setDefinition(e.target.value)}
+              placeholder="Ex: Menções à falta de dinheiro para transporte, material ou alimentação"
+              maxLength={2000}
+              data-testid="input-code-definition"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Categoria</Label>
+            <Select value={parentId} onValueChange={setParentId} disabled={hasChildren}>
+              <SelectTrigger data-testid="select-code-parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Nenhuma (é uma categoria)</SelectItem>
+                {parentOptions.length > 0 && <SelectSeparator />}
+                {parentOptions.map((code) => (
+                  <SelectItem key={code.id} value={code.id.toString()}>
+                    {code.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasChildren && (
+              <p className="text-xs text-muted-foreground">Este código agrupa outros códigos e não pode ter categoria.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Cor</Label>
+            <div className="flex flex-wrap gap-2">
+              {CODE_COLORS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  className="flex h-7 w-7 items-center justify-center rounded-full"
+                  style={{ backgroundColor: option }}
+                  onClick={() => setColor(option)}
+                  aria-label={option}
+                  data-testid={`button-code-color-${option.slice(1)}`}
+                >
+                  {color === option && <Check className="h-4 w-4 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()} data-testid="button-save-code">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Codebook of a project, edited on the project page and applied in the transcript workbench
+export function CodebookCard({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Code | undefined>();
+  const [deleting, setDeleting] = useState<Code | undefined>();
+
+  const { data: codes = [] } = useQuery<Code[]>({
+    queryKey: codebookQueryKey(projectId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CodeFormData) => {
+      return editing
+        ? apiRequest("PUT", `/api/codes/${editing.id}`, data)
+        : apiRequest("POST", `/api/projects/${projectId}/codes`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: codebookQueryKey(projectId) });
+      setIsFormOpen(false);
+      toast({ title: editing ? "Código atualizado" : "Código criado" });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao salvar",
+        description: "Verifique se já não existe um código com este nome.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (code: Code) => {
+      return apiRequest("DELETE", `/api/codes/${code.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: codebookQueryKey(projectId) });
+      setDeleting(undefined);
+      toast({ title: "Código excluído" });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o código.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (code?: Code) => {
+    setEditing(code);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Livro de códigos
+          </CardTitle>
+          <CardDescription>Códigos aplicados às entrevistas do projeto na bancada de codificação</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => openForm()} data-testid="button-new-code">
+          <Plus className="mr-2 h-4 w-4" />
+          Novo código
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {orderCodebook(codes).map(({ code, depth }) => (
+          <div
+            key={code.id}
+            className={`group flex items-start justify-between gap-4 rounded-md p-2 hover-elevate ${depth > 0 ? "ml-6" : ""}`}
+            data-testid={`row-code-${code.id}`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <CodeSwatch color={code.color} />
+                <span className={depth === 0 ? "font-semibold" : "font-medium"}>{code.name}</span>
+              </div>
+              {code.definition && (
+                <p className="text-sm text-muted-foreground line-clamp-2">{code.definition}</p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openForm(code)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDeleting(code)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {codes.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nenhum código ainda. Defina as categorias e códigos do estudo para codificar as entrevistas.
+          </p>
+        )}
+      </CardContent>
+
+      <CodeFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        codes={codes}
+        editing={editing}
+        isPending={saveMutation.isPending}
+        onSubmit={(data) => saveMutation.mutate(data)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir código?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O código "{deleting?.name}" e todos os trechos codificados com ele serão excluídos.
+              Códigos agrupados sob ele ficam sem categoria.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatTimestamp } from "@/lib/format";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, X, Trash2, Loader2, Sparkles, Tags, FolderOpen } from "lucide-react";
+import { CodeSwatch, codebookQueryKey, orderCodebook } from "@/components/codebook";
+import type { Code, Coding, Transcription } from "@shared/schema";
+
+type PassageSelection = { segmentIndex: number; start: number; end: number };
+
+// Characters of the container's text before the given point of a DOM selection
+function textOffset(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+// Splits a segment's text at every coding boundary; each piece lists the codings covering it. A coding
+// whose offsets no longer hold its passage (the segment was edited) would mark other words, so it is left out.
+function splitByCodings(text: string, segmentCodings: Coding[]): { text: string; codings: Coding[] }[] {
+  const codings = segmentCodings.filter((c) => text.slice(c.offsetStart, c.offsetEnd) === c.text);
+  const cuts = new Set([0, text.length]);
+  for (const c of codings) {
+    cuts.add(c.offsetStart);
+    cuts.add(c.offsetEnd);
+  }
+  const points = Array.from(cuts).sort((a, b) => a - b);
+  return points.slice(0, -1).map((from, i) => ({
+    text: text.slice(from, points[i + 1]),
+    codings: codings.filter((c) => c.offsetStart <= from && c.offsetEnd >= points[i + 1]),
+  }));
+}
+
+interface CodingWorkbenchProps {
+  transcription: Transcription;
+}
+
+// Manual coding of a transcript with its project's codebook. Select a passage in a segment and pick a
+// code; model suggestions only count once the researcher accepts them.
+export function CodingWorkbench({ transcription }: CodingWorkbenchProps) {
+  const { toast } = useToast();
+  const [selection, setSelection] = useState<PassageSelection | null>(null);
+  const projectId = transcription.projectId;
+  const segments = transcription.segments || [];
+  const codingsKey = ["/api/transcriptions", transcription.id.toString(), "codings"];
+
+  const { data: codes = [] } = useQuery<Code[]>({
+    queryKey: codebookQueryKey(projectId || 0),
+    enabled: !!projectId,
+  });
+
+  const { data: codings = [] } = useQuery<Coding[]>({
+    queryKey: codingsKey,
+    enabled: !!projectId,
+  });
+
+  // Suggestions run in the background; the transcription is polled while they do
+  const { data: current } = useQuery<Transcription>({
+    queryKey: ["/api/transcriptions", transcription.id.toString()],
+    refetchInterval: (query) => {
+      const data = query.state.data as Transcription | undefined;
+      return data?.codingSuggestions?.status === "processing" ? 3000 : false;
+    },
+  });
+  const suggestionsJob = (current || transcription).codingSuggestions;
+  const isSuggesting = suggestionsJob?.status === "processing";
+
+  // Report a run once it finishes, but not one that finished before the page was opened
+  const [watchedRun, setWatchedRun] = useState<string | null>(null);
+  useEffect(() => {
+    if (!suggestionsJob) return;
+    if (suggestionsJob.status === "processing") {
+      setWatchedRun(suggestionsJob.updatedAt);
+      return;
+    }
+    if (!watchedRun) return;
+    setWatchedRun(null);
+    queryClient.invalidateQueries({ queryKey: codingsKey });
+    if (suggestionsJob.status === "completed") {
+      const proposed = suggestionsJob.proposed || 0;
+      toast({
+        title: proposed > 0 ? `${proposed} sugestões para revisar` : "Nenhuma sugestão nova",
+        description: proposed > 0 ? "Aceite ou rejeite cada sugestão da IA." : undefined,
+      });
+    } else {
+      toast({
+        title: "Erro ao sugerir",
+        description: suggestionsJob.error || "Não foi possível gerar sugestões de codificação. Tente novamente.",
+        variant: "destructive",
+      });
+    }
+  }, [suggestionsJob?.status, suggestionsJob?.updatedAt]);
+
+  const codeById = new Map(codes.map((c) => [c.id, c]));
+  const visible = codings.filter((c) => c.status !== "rejected" && codeById.has(c.codeId));
+  const accepted = visible.filter((c) => c.status === "accepted");
+  const proposals = visible.filter((c) => c.status === "proposed");
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ codeId, passage }: { codeId: number; passage: PassageSelection }) => {
+      return apiRequest("POST", `/api/transcriptions/${transcription.id}/codings`, {
+        codeId,
+        segmentIndex: passage.segmentIndex,
+        offsetStart: passage.start,
+        offsetEnd: passage.end,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: codingsKey });
+      setSelection(null);
+      window.getSelection()?.removeAllRanges();
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao codificar",
+        description: "Não foi possível aplicar o código ao trecho.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/transcriptions/${transcription.id}/codings/suggestions`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions", transcription.id.toString()] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao sugerir",
+        description: "Não foi possível iniciar as sugestões de codificação. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: "accepted" | "rejected" }) => {
+      return apiRequest("PUT", `/api/codings/${id}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: codingsKey });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/codings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: codingsKey });
+    },
+  });
+
+  const handleMouseUp = (segmentIndex: number, container: HTMLElement) => {
+    const domSelection = window.getSelection();
+    if (!domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0) return;
+    const range = domSelection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) {
+      setSelection(null);
+      return;
+    }
+
+    // Leading and trailing spaces are not part of the passage
+    const text = segments[segmentIndex].text;
+    let start = textOffset(container, range.startContainer, range.startOffset);
+    let end = textOffset(container, range.endContainer, range.endOffset);
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    setSelection(end > start ? { segmentIndex, start, end } : null);
+  };
+
+  const scrollToSegment = (segmentIndex: number) => {
+    document.getElementById(`coding-segment-${segmentIndex}`)?.scrollIntoView({ block: "center", behavior: "smooth" });
+  };
+
+  if (!projectId) {
+    return (
+      <div className="text-center py-12">
+        <FolderOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">
+          Adicione esta transcrição a um projeto para codificá-la com o livro de códigos do projeto.
+        </p>
+      </div>
+    );
+  }
+
+  if (codes.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Tags className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground mb-4">O livro de códigos do projeto está vazio.</p>
+        <Button variant="outline" asChild>
+          <Link href={`/projetos/${projectId}`}>Criar códigos no projeto</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <ScrollArea className="h-[500px] pr-4 lg:col-span-2">
+        <div className="space-y-1">
+          {segments.map((segment, index) => {
+            const segmentCodings = visible.filter((c) => c.segmentIndex === index);
+            return (
+              <div
+                key={index}
+                id={`coding-segment-${index}`}
+                className="flex gap-3 border-b border-border/50 py-3 last:border-0"
+              >
+                <div className="w-16 shrink-0 space-y-1">
+                  <Badge variant="outline" className="text-xs font-mono">{formatTimestamp(segment.start)}</Badge>
+                  {segment.speaker && (
+                    <div className="text-xs text-muted-foreground truncate">{segment.speaker}</div>
+                  )}
+                </div>
+                <div
+                  className="flex-1 text-sm leading-relaxed selection:bg-primary/30"
+                  onMouseUp={(e) => handleMouseUp(index, e.currentTarget)}
+                  data-testid={`text-coding-segment-${index}`}
+                >
+                  {splitByCodings(segment.text, segmentCodings).map((piece, i) => {
+                    // The most recent coding of each kind decides the colour where codings overlap
+                    const acceptedCode = codeById.get(piece.codings.filter((c) => c.status === "accepted").pop()?.codeId ?? 0);
+                    const proposedCode = codeById.get(piece.codings.filter((c) => c.status === "proposed").pop()?.codeId ?? 0);
+                    if (!acceptedCode && !proposedCode) return piece.text;
+                    return (
+                      <span
+                        key={i}
+                        className="rounded-sm"
+                        style={{
+                          backgroundColor: acceptedCode ? `${acceptedCode.color}33` : undefined,
+                          textDecoration: proposedCode ? `underline dashed ${proposedCode.color}` : undefined,
+                          textUnderlineOffset: proposedCode ? "4px" : undefined,
+                        }}
+                        title={piece.codings.map((c) => codeById.get(c.codeId)!.name + (c.status === "proposed" ? " (sugestão)" : "")).join(", ")}
+                      >
+                        {piece.text}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Aplicar código</h3>
+          {selection ? (
+            <p className="text-sm italic border-l-2 border-primary pl-3 line-clamp-3" data-testid="text-selected-passage">
+              "{segments[selection.segmentIndex].text.slice(selection.start, selection.end)}"
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Selecione um trecho de um segmento para codificá-lo.</p>
+          )}
+          <div className="space-y-1">
+            {orderCodebook(codes).map(({ code, depth }) => (
+              <Button
+                key={code.id}
+                variant="ghost"
+                size="sm"
+                className={`w-full justify-between ${depth > 0 ? "pl-6" : ""}`}
+                disabled={!selection || applyMutation.isPending}
+                onClick={() => selection && applyMutation.mutate({ codeId: code.id, passage: selection })}
+                title={code.definition || undefined}
+                data-testid={`button-apply-code-${code.id}`}
+              >
+                <span className="flex items-center gap-2 truncate">
+                  <CodeSwatch color={code.color} />
+                  {code.name}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {accepted.filter((c) => c.codeId === code.id).length}
+                </span>
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-semibold">Sugestões da IA</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => suggestMutation.mutate()}
+              disabled={suggestMutation.isPending || isSuggesting}
+              data-testid="button-suggest-codings"
+            >
+              {suggestMutation.isPending || isSuggesting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Sparkles className="mr-2 h-4 w-4" />
+              )}
+              Sugerir
+            </Button>
+          </div>
+          {isSuggesting && (
+            <p className="text-xs text-muted-foreground">Gerando sugestões em segundo plano...</p>
+          )}
+          {proposals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhuma sugestão pendente. As sugestões só entram na codificação depois de aceitas.
+            </p>
+          ) : (
+            <div className="max-h-[300px] overflow-y-auto space-y-2">
+              {proposals.map((coding) => {
+                const code = codeById.get(coding.codeId)!;
+                return (
+                  <div key={coding.id} className="rounded-md border p-2 space-y-1" data-testid={`proposal-${coding.id}`}>
+                    <div className="flex items-center gap-2 text-xs font-medium">
+                      <CodeSwatch color={code.color} />
+                      {code.name}
+                    </div>
+                    <button
+                      type="button"
+                      className="text-sm italic text-left hover:underline"
+                      onClick={() => scrollToSegment(coding.segmentIndex)}
+                    >
+                      "{coding.text}"
+                    </button>
+                    {coding.rationale && (
+                      <p className="text-xs text-muted-foreground">{coding.rationale}</p>
+                    )}
+                    {coding.stale && (
+                      <p className="text-xs text-destructive">Trecho não encontrado após a edição da transcrição</p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => reviewMutation.mutate({ id: coding.id, status: "accepted" })}
+                        data-testid={`button-accept-proposal-${coding.id}`}
+                      >
+                        <Check className="mr-1 h-3 w-3" />
+                        Aceitar
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => reviewMutation.mutate({ id: coding.id, status: "rejected" })}
+                        data-testid={`button-reject-proposal-${coding.id}`}
+                      >
+                        <X className="mr-1 h-3 w-3" />
+                        Rejeitar
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Trechos codificados ({accepted.length})</h3>
+          <div className="space-y-1">
+            {accepted.map((coding) => {
+              const code = codeById.get(coding.codeId)!;
+              return (
+                <div key={coding.id} className="group flex items-start gap-2 text-sm" data-testid={`coding-${coding.id}`}>
+                  <span className="mt-1.5"><CodeSwatch color={code.color} /></span>
+                  <button
+                    type="button"
+                    className="flex-1 text-left line-clamp-2 hover:underline"
+                    onClick={() => scrollToSegment(coding.segmentIndex)}
+                    title={code.name}
+                  >
+                    {coding.text}
+                    {coding.stale && (
+                      <span className="block text-xs text-destructive">Trecho não encontrado após a edição da transcrição</span>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => deleteMutation.mutate(coding.id)}
+                    data-testid={`button-delete-coding-${coding.id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
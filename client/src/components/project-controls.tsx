@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { FolderOpen, FolderInput, Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Project } from "@shared/schema";
+
+// "all", "none" (not in any project) or a project id
+export type ProjectFilterValue = string;
+
+export function matchesProjectFilter(projectId: number | null, filter: ProjectFilterValue): boolean {
+  if (filter === "all") return true;
+  if (filter === "none") return projectId === null;
+  return projectId === Number(filter);
+}
+
+interface ProjectFilterProps {
+  projects: Project[];
+  value: ProjectFilterValue;
+  onChange: (value: ProjectFilterValue) => void;
+}
+
+export function ProjectFilter({ projects, value, onChange }: ProjectFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="sm:w-64" data-testid="select-project-filter">
+        <FolderOpen className="mr-2 h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">Todos os projetos</SelectItem>
+        <SelectItem value="none">Sem projeto</SelectItem>
+        {projects.length > 0 && <SelectSeparator />}
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id.toString()}>
+            {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface MoveToProjectMenuProps {
+  projects: Project[];
+  currentProjectId: number | null;
+  onMove: (projectId: number | null) => void;
+}
+
+// Submenu for an item's actions dropdown
+export function MoveToProjectMenu({ projects, currentProjectId, onMove }: MoveToProjectMenuProps) {
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger data-testid="menu-move-project">
+        <FolderInput className="mr-2 h-4 w-4" />
+        Mover para projeto
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        {projects.map((project) => (
+          <DropdownMenuItem
+            key={project.id}
+            disabled={project.id === currentProjectId}
+            onClick={() => onMove(project.id)}
+          >
+            {project.id === currentProjectId ? <Check className="mr-2 h-4 w-4" /> : <span className="mr-2 w-4" />}
+            {project.name}
+          </DropdownMenuItem>
+        ))}
+        {projects.length === 0 && (
+          <DropdownMenuItem disabled>Nenhum projeto criado</DropdownMenuItem>
+        )}
+        {currentProjectId !== null && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onMove(null)}>Remover do projeto</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
+export function formatTotalDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  if (hours === 0) return `${minutes} min`;
+  return `${hours}h ${minutes.toString().padStart(2, "0")}min`;
+}
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initial?: { name: string; description: string | null };
+  isPending: boolean;
+  onSubmit: (data: { name: string; description: string | null }) => void;
+}
+
+// Create and edit form for a project
+export function ProjectFormDialog({ open, onOpenChange, title, initial, isPending, onSubmit }: ProjectFormDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setName(initial?.name || "");
+      setDescription(initial?.description || "");
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({ name: name.trim(), description: description.trim() || null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Agrupe as entrevistas e análises de um mesmo estudo.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Nome</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Estudo sobre evasão escolar"
+              maxLength={120}
+              autoFocus
+              data-testid="input-project-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Descrição (opcional)</Label>
+            <Textarea
+              id="project-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={2000}
+              data-testid="input-project-description"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()} data-testid="button-save-project">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
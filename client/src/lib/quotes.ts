@@ -0,0 +1,16 @@
+const NON_WORD_CHARS = new RegExp("[^\\p{L}\\p{N}]", "gu");
+
+function lettersOf(text: string): string {
+  return text.toLowerCase().normalize("NFD").replace(NON_WORD_CHARS, "");
+}
+
+// First letters of a quote, enough to recognise the passage it was taken from
+export function quoteOpening(quote: string): string {
+  return lettersOf(quote.split(/\.{3}|…/)[0]).slice(0, 40);
+}
+
+// Quote offsets point into the text as it was analysed; a transcription edited since may have moved them
+export function passageMatches(text: string, start: number | undefined, end: number | undefined, opening: string): boolean {
+  if (start === undefined || end === undefined) return false;
+  return opening.length > 0 && lettersOf(text.slice(start, end)).startsWith(opening);
+}
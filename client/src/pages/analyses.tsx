@@ -41,18 +41,27 @@ import {
   MoreVertical,
   Brain,
 } from "lucide-react";
-import { Link } from "wouter";
-import type { Analysis } from "@shared/schema";
+import { Link, useSearch } from "wouter";
+import { ProjectFilter, MoveToProjectMenu, matchesProjectFilter } from "@/components/project-controls";
+import type { Analysis, Project } from "@shared/schema";
 
 export default function AnalysesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
+  const searchParams = useSearch();
+  const [projectFilter, setProjectFilter] = useState(
+    () => new URLSearchParams(searchParams).get("projeto") || "all"
+  );
 
   const { data: analyses, isLoading } = useQuery<Analysis[]>({
     queryKey: ["/api/analyses"],
   });
 
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/analyses/${id}`);
@@ -71,9 +80,31 @@ export default function AnalysesPage() {
   });
 
   const filteredAnalyses = analyses?.filter((a) =>
-    a.title.toLowerCase().includes(searchQuery.toLowerCase())
+    a.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
+    matchesProjectFilter(a.projectId, projectFilter)
   );
 
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, projectId }: { id: number; projectId: number | null }) => {
+      await apiRequest("PUT", `/api/analyses/${id}`, { projectId });
+    },
+    onSuccess: () => {
+      toast({ title: "Análise movida" });
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao mover",
+        description: "Não foi possível mover a análise.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getInitials = (firstName?: string | null, lastName?: string | null) => {
     const first = firstName?.charAt(0) || "";
     const last = lastName?.charAt(0) || "";
@@ -117,6 +148,9 @@ export default function AnalysesPage() {
               <Button variant="ghost" asChild>
                 <Link href="/">Dashboard</Link>
               </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/projetos">Projetos</Link>
+              </Button>
               <Button variant="ghost" asChild>
                 <Link href="/transcricoes">Transcrições</Link>
               </Button>
@@ -185,15 +219,18 @@ export default function AnalysesPage() {
           </Button>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar análises..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-            data-testid="input-search"
-          />
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar análises..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+              data-testid="input-search"
+            />
+          </div>
+          <ProjectFilter projects={projects} value={projectFilter} onChange={setProjectFilter} />
         </div>
 
         {isLoading ? (
@@ -229,6 +266,9 @@ export default function AnalysesPage() {
                       {analysis.theoreticalFrameworkFileName && (
                         <span>Ref: {analysis.theoreticalFrameworkFileName}</span>
                       )}
+                      {analysis.projectId !== null && projectNames.has(analysis.projectId) && (
+                        <Badge variant="outline" className="text-xs">{projectNames.get(analysis.projectId)}</Badge>
+                      )}
                     </div>
                   </Link>
                   <div className="flex items-center gap-2 flex-shrink-0">
@@ -240,6 +280,12 @@ export default function AnalysesPage() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
+                        <MoveToProjectMenu
+                          projects={projects}
+                          currentProjectId={analysis.projectId}
+                          onMove={(projectId) => moveMutation.mutate({ id: analysis.id, projectId })}
+                        />
+                        <DropdownMenuSeparator />
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <DropdownMenuItem
@@ -280,14 +326,14 @@ export default function AnalysesPage() {
             <CardContent className="text-center py-12">
               <Brain className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">
-                {searchQuery ? "Nenhuma análise encontrada" : "Nenhuma análise ainda"}
+                {searchQuery || projectFilter !== "all" ? "Nenhuma análise encontrada" : "Nenhuma análise ainda"}
               </h3>
               <p className="text-muted-foreground mb-4">
-                {searchQuery
-                  ? "Tente uma busca diferente"
+                {searchQuery || projectFilter !== "all"
+                  ? "Tente uma busca ou um projeto diferente"
                   : "Comece selecionando uma transcrição para analisar"}
               </p>
-              {!searchQuery && (
+              {!searchQuery && projectFilter === "all" && (
                 <Button asChild>
                   <Link href="/analises/nova">
                     <Plus className="mr-2 h-4 w-4" />
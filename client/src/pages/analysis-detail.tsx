@@ -1,12 +1,23 @@
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { formatTimestamp } from "@/lib/format";
+import { passageMatches, quoteOpening } from "@/lib/quotes";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -29,24 +40,46 @@ import {
   Tag,
   Quote,
   BookOpen,
+  Download,
+  FileText,
+  PlayCircle,
+  Shapes,
 } from "lucide-react";
-import type { Analysis, Transcription } from "@shared/schema";
+import type { AnalysisQuote, AnalysisWithSources, GridCategory, Transcription, UnclassifiedUnit } from "@shared/schema";
+
+// The quote's moment in the transcription page, with the passage marked in its segment
+function transcriptLink(quote: Omit<AnalysisQuote, "category">): string {
+  if (quote.segmentIndex === undefined || quote.timestamp === undefined) {
+    return `/transcricoes/${quote.transcriptionId}`;
+  }
+  const passage = `${quote.segmentIndex}:${quote.segmentOffsetStart}-${quote.segmentOffsetEnd}`;
+  return `/transcricoes/${quote.transcriptionId}?t=${quote.timestamp}&trecho=${passage}&citacao=${quoteOpening(quote.text)}`;
+}
 
 export default function AnalysisDetailPage() {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [selectedSourceId, setSelectedSourceId] = useState<number | null>(null);
+  const [selectedQuoteIndex, setSelectedQuoteIndex] = useState<number | null>(null);
+  const passageRef = useRef<HTMLElement>(null);
 
-  const { data: analysis, isLoading } = useQuery<Analysis>({
+  const { data: analysis, isLoading } = useQuery<AnalysisWithSources>({
     queryKey: ["/api/analyses", id],
     refetchInterval: (query) => {
-      const data = query.state.data as Analysis | undefined;
+      const data = query.state.data as AnalysisWithSources | undefined;
       return data?.status === "processing" ? 3000 : false;
     },
   });
 
+  const sources = analysis?.sources || [];
+  // The left panel shows one interview of the corpus at a time, the first one until another is picked
+  const shownTranscriptionId = selectedSourceId ?? sources[0]?.transcriptionId ?? analysis?.transcriptionId;
+
   const { data: transcription } = useQuery<Transcription>({
-    queryKey: ["/api/transcriptions", analysis?.transcriptionId?.toString()],
-    enabled: !!analysis?.transcriptionId,
+    queryKey: ["/api/transcriptions", shownTranscriptionId?.toString()],
+    enabled: !!shownTranscriptionId,
   });
 
   const getInitials = (firstName?: string | null, lastName?: string | null) => {
@@ -81,9 +114,65 @@ export default function AnalysisDetailPage() {
     }
   };
 
+  const downloadAnalysis = async () => {
+    if (!analysis) return;
+    try {
+      const response = await fetch(`/api/analyses/${id}/download?format=pdf`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Download failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${analysis.title}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Download iniciado",
+        description: `Relatório ${analysis.title}.pdf baixado.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro no download",
+        description: "Não foi possível gerar o relatório em PDF.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const categories = analysis?.categories as string[] | null;
   const themes = analysis?.themes as { name: string; count: number }[] | null;
-  const quotes = analysis?.quotes as { text: string; category: string }[] | null;
+  const quotes = analysis?.quotes as AnalysisQuote[] | null;
+  // Set on deductive analyses only
+  const categoryGrid = analysis?.categoryGrid as GridCategory[] | null;
+  const unclassifiedUnits = analysis?.unclassifiedUnits as UnclassifiedUnit[] | null;
+
+  // Text of the left panel, with the selected quote marked when it comes from that text
+  const shownText = !analysis?.isFromInternalTranscription
+    ? analysis?.inputText || ""
+    : transcription?.transcriptionText || "";
+  const selectedQuote = selectedQuoteIndex !== null ? quotes?.[selectedQuoteIndex] : undefined;
+  const markedQuote = selectedQuote &&
+    (!analysis?.isFromInternalTranscription || selectedQuote.transcriptionId === transcription?.id) &&
+    passageMatches(shownText, selectedQuote.offsetStart, selectedQuote.offsetEnd, quoteOpening(selectedQuote.text))
+    ? selectedQuote
+    : undefined;
+
+  useEffect(() => {
+    passageRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [markedQuote]);
+
+  const selectQuote = (index: number, quote: AnalysisQuote) => {
+    setSelectedQuoteIndex(index);
+    if (quote.transcriptionId && sources.some((s) => s.transcriptionId === quote.transcriptionId)) {
+      setSelectedSourceId(quote.transcriptionId);
+    }
+  };
 
   if (isLoading) {
     return (
@@ -183,23 +272,43 @@ export default function AnalysisDetailPage() {
       </header>
 
       <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
-        <div>
-          <div className="flex items-center gap-3 mb-2">
-            <h1 className="text-2xl font-bold" data-testid="text-title">{analysis.title}</h1>
-            {getStatusBadge(analysis.status)}
-          </div>
-          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-            <span className="flex items-center gap-1">
-              <Clock className="h-4 w-4" />
-              {formatDate(analysis.createdAt)}
-            </span>
-            {analysis.theoreticalFrameworkFileName && (
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-2xl font-bold" data-testid="text-title">{analysis.title}</h1>
+              {getStatusBadge(analysis.status)}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
               <span className="flex items-center gap-1">
-                <BookOpen className="h-4 w-4" />
-                {analysis.theoreticalFrameworkFileName}
+                <Clock className="h-4 w-4" />
+                {formatDate(analysis.createdAt)}
               </span>
-            )}
+              {sources.length > 1 && (
+                <span className="flex items-center gap-1" data-testid="text-source-count">
+                  <FileText className="h-4 w-4" />
+                  {sources.length} entrevistas
+                </span>
+              )}
+              {analysis.mode === "deductive" && (
+                <span className="flex items-center gap-1" data-testid="text-analysis-mode">
+                  <Shapes className="h-4 w-4" />
+                  Grade fechada (dedutiva)
+                </span>
+              )}
+              {analysis.theoreticalFrameworkFileName && (
+                <span className="flex items-center gap-1">
+                  <BookOpen className="h-4 w-4" />
+                  {analysis.theoreticalFrameworkFileName}
+                </span>
+              )}
+            </div>
           </div>
+          {analysis.status === "completed" && (
+            <Button variant="outline" onClick={downloadAnalysis} data-testid="button-download-pdf">
+              <Download className="mr-2 h-4 w-4" />
+              Baixar PDF
+            </Button>
+          )}
         </div>
 
         {analysis.status === "processing" ? (
@@ -226,15 +335,53 @@ export default function AnalysisDetailPage() {
           <div className="grid lg:grid-cols-2 gap-6">
             <Card className="lg:row-span-2">
               <CardHeader>
-                <CardTitle>Transcrição Original</CardTitle>
-                <CardDescription>
-                  {transcription?.title || "Carregando..."}
-                </CardDescription>
+                <CardTitle>
+                  {!analysis.isFromInternalTranscription
+                    ? "Texto Analisado"
+                    : sources.length > 1 ? "Transcrições Originais" : "Transcrição Original"}
+                </CardTitle>
+                {!analysis.isFromInternalTranscription ? (
+                  <CardDescription>Texto externo</CardDescription>
+                ) : sources.length > 1 ? (
+                  <Select
+                    value={shownTranscriptionId?.toString()}
+                    onValueChange={(value) => setSelectedSourceId(Number(value))}
+                  >
+                    <SelectTrigger data-testid="select-source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sources.map((source) => (
+                        <SelectItem key={source.transcriptionId} value={source.transcriptionId.toString()}>
+                          Entrevista {source.position}: {source.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <CardDescription>
+                    {transcription?.title || "Carregando..."}
+                  </CardDescription>
+                )}
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[600px] pr-4">
                   <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">
-                    {transcription?.transcriptionText || "Carregando transcrição..."}
+                    {markedQuote ? (
+                      <>
+                        {shownText.slice(0, markedQuote.offsetStart)}
+                        <mark
+                          ref={passageRef}
+                          className="bg-primary/20 text-inherit rounded-sm"
+                          data-testid="mark-quote-passage"
+                        >
+                          {shownText.slice(markedQuote.offsetStart, markedQuote.offsetEnd)}
+                        </mark>
+                        {shownText.slice(markedQuote.offsetEnd)}
+                      </>
+                    ) : (
+                      shownText || "Carregando transcrição..."
+                    )}
                   </div>
                 </ScrollArea>
               </CardContent>
@@ -273,11 +420,33 @@ export default function AnalysisDetailPage() {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Tag className="h-5 w-5" />
-                      Categorias Identificadas
+                      {categoryGrid ? "Categorias da Grade" : "Categorias Identificadas"}
                     </CardTitle>
+                    {categoryGrid && (
+                      <CardDescription>Definidas pelo pesquisador antes da análise</CardDescription>
+                    )}
                   </CardHeader>
                   <CardContent>
-                    {categories && categories.length > 0 ? (
+                    {categoryGrid ? (
+                      <div className="space-y-4">
+                        {categoryGrid.map((category, index) => (
+                          <div key={index} className="flex items-start gap-3 p-3 bg-muted rounded-md">
+                            <div className="flex items-center justify-center h-8 w-8 rounded-full bg-primary/10 text-primary font-semibold text-sm flex-shrink-0">
+                              {index + 1}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between gap-2">
+                                <p className="font-medium">{category.name}</p>
+                                <Badge variant="secondary" data-testid={`text-grid-count-${index}`}>
+                                  {quotes?.filter((q) => q.category === category.name).length || 0} citações
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{category.definition}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : categories && categories.length > 0 ? (
                       <div className="space-y-4">
                         {categories.map((category, index) => (
                           <div key={index} className="flex items-start gap-3 p-3 bg-muted rounded-md">
@@ -309,6 +478,48 @@ export default function AnalysisDetailPage() {
                         </div>
                       </div>
                     )}
+
+                    {unclassifiedUnits && (
+                      <div className="mt-6" data-testid="section-unclassified">
+                        <h4 className="font-semibold mb-1">Não classificadas ({unclassifiedUnits.length})</h4>
+                        <p className="text-sm text-muted-foreground mb-3">
+                          Unidades de registro que não se encaixam em nenhuma categoria da grade
+                        </p>
+                        <div className="space-y-3">
+                          {unclassifiedUnits.map((unit, index) => (
+                            <div key={index} className="border-l-2 border-muted-foreground/40 pl-4 py-1">
+                              <p className="text-sm italic">"{unit.text}"</p>
+                              {unit.reason && (
+                                <p className="text-xs text-muted-foreground mt-1">{unit.reason}</p>
+                              )}
+                              <div className="flex flex-wrap items-center gap-2 mt-1">
+                                {unit.source && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <FileText className="h-3 w-3" />
+                                    {unit.source}
+                                  </span>
+                                )}
+                                {unit.transcriptionId && unit.offsetStart !== undefined && (
+                                  <Link
+                                    href={transcriptLink(unit)}
+                                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                    data-testid={`link-unclassified-transcript-${index}`}
+                                  >
+                                    <PlayCircle className="h-3 w-3" />
+                                    Ver na transcrição
+                                  </Link>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                          {unclassifiedUnits.length === 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              Todas as unidades de registro foram classificadas na grade.
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -326,9 +537,50 @@ export default function AnalysisDetailPage() {
                       {quotes && quotes.length > 0 ? (
                         <div className="space-y-4">
                           {quotes.map((quote, index) => (
-                            <div key={index} className="border-l-2 border-primary pl-4 py-2">
-                              <p className="text-sm italic mb-2">"{quote.text}"</p>
-                              <Badge variant="outline">{quote.category}</Badge>
+                            <div
+                              key={index}
+                              className={`border-l-2 border-primary pl-4 py-2 ${selectedQuoteIndex === index ? "bg-primary/5" : ""}`}
+                            >
+                              {quote.offsetStart !== undefined ? (
+                                <button
+                                  type="button"
+                                  className="text-sm italic mb-2 text-left hover:underline"
+                                  onClick={() => selectQuote(index, quote)}
+                                  title="Mostrar no texto analisado"
+                                  data-testid={`button-quote-${index}`}
+                                >
+                                  "{quote.text}"
+                                </button>
+                              ) : (
+                                <p className="text-sm italic mb-2">"{quote.text}"</p>
+                              )}
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant="outline">{quote.category}</Badge>
+                                {quote.source && (
+                                  <button
+                                    type="button"
+                                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                    onClick={() => quote.transcriptionId && setSelectedSourceId(quote.transcriptionId)}
+                                    disabled={!sources.some((s) => s.transcriptionId === quote.transcriptionId)}
+                                    data-testid={`button-quote-source-${index}`}
+                                  >
+                                    <FileText className="h-3 w-3" />
+                                    {quote.source}
+                                  </button>
+                                )}
+                                {quote.transcriptionId && quote.offsetStart !== undefined && (
+                                  <Link
+                                    href={transcriptLink(quote)}
+                                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                    data-testid={`link-quote-transcript-${index}`}
+                                  >
+                                    <PlayCircle className="h-3 w-3" />
+                                    {quote.timestamp !== undefined
+                                      ? `Ver na transcrição (${formatTimestamp(quote.timestamp)})`
+                                      : "Ver na transcrição"}
+                                  </Link>
+                                )}
+                              </div>
                             </div>
                           ))}
                         </div>
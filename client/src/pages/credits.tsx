@@ -196,7 +196,7 @@ export default function CreditsPage() {
                 </li>
                 <li className="flex items-center gap-2">
                   <Brain className="h-4 w-4 text-muted-foreground" />
-                  <span><strong>Análise:</strong> 20-80 créditos conforme tamanho do texto</span>
+                  <span><strong>Análise:</strong> 5-25 créditos pelo referencial teórico, mais 20-80 créditos para textos externos conforme o tamanho</span>
                 </li>
                 <li className="flex items-center gap-2">
                   <Check className="h-4 w-4 text-green-600" />
@@ -70,6 +70,8 @@ export default function Dashboard() {
         return <Badge variant="secondary">Processando</Badge>;
       case "pending":
         return <Badge variant="outline">Pendente</Badge>;
+      case "partial":
+        return <Badge variant="outline" className="border-amber-500 text-amber-600">Incompleta</Badge>;
       case "error":
         return <Badge variant="destructive">Erro</Badge>;
       default:
@@ -90,6 +92,9 @@ export default function Dashboard() {
               <Button variant="ghost" asChild>
                 <Link href="/">Dashboard</Link>
               </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/projetos">Projetos</Link>
+              </Button>
               <Button variant="ghost" asChild>
                 <Link href="/transcricoes">Transcrições</Link>
               </Button>
@@ -9,8 +9,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ThemeToggle } from "@/components/theme-toggle";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -18,6 +18,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -38,9 +40,15 @@ import {
   AlertCircle,
   FileText,
   BookOpen,
+  Shapes,
 } from "lucide-react";
 import { Link } from "wouter";
-import type { Transcription } from "@shared/schema";
+import { ProjectFilter, matchesProjectFilter, type ProjectFilterValue } from "@/components/project-controls";
+import { CategoryGridEditor, isCategoryGridComplete } from "@/components/category-grid";
+import type { AnalysisMode, GridCategory, Project, Transcription } from "@shared/schema";
+
+const DOCUMENT_EXTENSIONS = [".pdf", ".docx", ".odt", ".rtf", ".txt"];
+const DOCUMENT_ACCEPT = DOCUMENT_EXTENSIONS.join(",");
 
 export default function NewAnalysisPage() {
   const { user } = useAuth();
@@ -50,13 +58,21 @@ export default function NewAnalysisPage() {
   const searchParams = new URLSearchParams(searchString);
   const preselectedTranscription = searchParams.get("transcricao");
 
-  const [selectedTranscriptionId, setSelectedTranscriptionId] = useState<string>(
-    preselectedTranscription || ""
+  const [selectedIds, setSelectedIds] = useState<number[]>(
+    preselectedTranscription ? [Number(preselectedTranscription)] : []
   );
+  const [projectFilter, setProjectFilter] = useState<ProjectFilterValue>(searchParams.get("projeto") || "all");
+  const [sourceMode, setSourceMode] = useState<"transcriptions" | "text">("transcriptions");
+  const [externalText, setExternalText] = useState("");
+  const [externalFile, setExternalFile] = useState<File | null>(null);
+  const [externalLanguage, setExternalLanguage] = useState("pt");
   const [title, setTitle] = useState("");
+  const [titleEdited, setTitleEdited] = useState(false);
   const [theoreticalFile, setTheoreticalFile] = useState<File | null>(null);
   const [theoreticalText, setTheoreticalText] = useState("");
   const [dragActive, setDragActive] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>("emergent");
+  const [categoryGrid, setCategoryGrid] = useState<GridCategory[]>([{ name: "", definition: "" }]);
 
   const hasAnalysisCredit = (user?.credits || 0) > 0 || !user?.freeAnalysisUsed;
   const canAnalyze = hasAnalysisCredit;
@@ -69,15 +85,53 @@ export default function NewAnalysisPage() {
     (t) => t.status === "completed"
   );
 
-  const selectedTranscription = completedTranscriptions?.find(
-    (t) => t.id.toString() === selectedTranscriptionId
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const visibleTranscriptions = (completedTranscriptions || []).filter(
+    (t) => matchesProjectFilter(t.projectId, projectFilter)
   );
 
+  // Kept in the order they were ticked, which is the interview numbering of the corpus
+  const selectedTranscriptions = selectedIds
+    .map((id) => completedTranscriptions?.find((t) => t.id === id))
+    .filter((t): t is Transcription => !!t);
+
+  const selectedWordCount = selectedTranscriptions.reduce((total, t) => total + (t.wordCount || 0), 0);
+
+  // Pages are counted as on the server, 250 words each; an uploaded file is only counted there
+  const externalWordCount = externalText.split(/\s+/).filter(Boolean).length;
+  const hasInput = sourceMode === "transcriptions"
+    ? selectedTranscriptions.length > 0
+    : !!externalFile || externalWordCount > 0;
+  const hasCategories = analysisMode === "emergent" || isCategoryGridComplete(categoryGrid);
+
+  // The title follows the selection until the user types one
   useEffect(() => {
-    if (selectedTranscription && !title) {
-      setTitle(`Análise: ${selectedTranscription.title}`);
+    if (titleEdited || sourceMode !== "transcriptions") return;
+    if (selectedTranscriptions.length === 1) {
+      setTitle(`Análise: ${selectedTranscriptions[0].title}`);
+    } else if (selectedTranscriptions.length > 1) {
+      setTitle(`Análise: ${selectedTranscriptions.length} entrevistas`);
     }
-  }, [selectedTranscription, title]);
+  }, [selectedTranscriptions.map((t) => t.id).join(","), titleEdited, sourceMode]);
+
+  const toggleTranscription = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((i) => i !== id)));
+  };
+
+  const allVisibleSelected =
+    visibleTranscriptions.length > 0 && visibleTranscriptions.every((t) => selectedIds.includes(t.id));
+
+  const toggleAllVisible = () => {
+    const visibleIds = visibleTranscriptions.map((t) => t.id);
+    setSelectedIds((ids) =>
+      allVisibleSelected
+        ? ids.filter((id) => !visibleIds.includes(id))
+        : [...ids, ...visibleIds.filter((id) => !ids.includes(id))]
+    );
+  };
 
   const getInitials = (firstName?: string | null, lastName?: string | null) => {
     const first = firstName?.charAt(0) || "";
@@ -138,27 +192,62 @@ export default function NewAnalysisPage() {
     }
   }, []);
 
+  // Browsers often report no MIME type for DOCX, ODT and RTF, so the extension decides
+  const isSupportedDocument = (file: File) => {
+    const ext = "." + (file.name.split(".").pop()?.toLowerCase() || "");
+    return DOCUMENT_EXTENSIONS.includes(ext);
+  };
+
+  const rejectDocument = () => {
+    toast({
+      title: "Formato inválido",
+      description: "Por favor, envie um arquivo PDF, DOCX, ODT, RTF ou TXT.",
+      variant: "destructive",
+    });
+  };
+
   const handleTheoreticalFile = (file: File) => {
-    const validTypes = ["application/pdf", "text/plain"];
-    if (!validTypes.includes(file.type)) {
-      toast({
-        title: "Formato inválido",
-        description: "Por favor, envie um arquivo PDF ou TXT.",
-        variant: "destructive",
-      });
+    if (!isSupportedDocument(file)) {
+      rejectDocument();
       return;
     }
     setTheoreticalFile(file);
     setTheoreticalText("");
   };
 
+  const handleExternalFile = (file: File) => {
+    if (!isSupportedDocument(file)) {
+      rejectDocument();
+      return;
+    }
+    setExternalFile(file);
+    setExternalText("");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedTranscriptionId || !title.trim()) return;
+    if (!hasInput || !title.trim() || !hasCategories) return;
 
     const formData = new FormData();
-    formData.append("transcriptionId", selectedTranscriptionId);
+    if (sourceMode === "transcriptions") {
+      for (const t of selectedTranscriptions) {
+        formData.append("transcriptionIds", t.id.toString());
+      }
+    } else {
+      if (externalFile) {
+        formData.append("inputFile", externalFile);
+      } else {
+        formData.append("inputText", externalText.trim());
+      }
+      formData.append("language", externalLanguage);
+    }
     formData.append("title", title.trim());
+    formData.append("analysisMode", analysisMode);
+    if (analysisMode === "deductive") {
+      formData.append("categoryGrid", JSON.stringify(
+        categoryGrid.map((c) => ({ name: c.name.trim(), definition: c.definition.trim() }))
+      ));
+    }
 
     if (theoreticalFile) {
       formData.append("theoreticalFramework", theoreticalFile);
@@ -259,47 +348,175 @@ export default function NewAnalysisPage() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Selecionar Transcrição
+                  Material para Análise
                 </CardTitle>
                 <CardDescription>
-                  Escolha a transcrição que deseja analisar
+                  Escolha uma ou várias transcrições para analisá-las em conjunto, ou envie um texto externo
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <Select
-                  value={selectedTranscriptionId}
-                  onValueChange={setSelectedTranscriptionId}
-                >
-                  <SelectTrigger data-testid="select-transcription">
-                    <SelectValue placeholder="Selecione uma transcrição" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {completedTranscriptions?.map((t) => (
-                      <SelectItem key={t.id} value={t.id.toString()}>
-                        {t.title}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                {selectedTranscription && (
-                  <div className="p-4 bg-muted rounded-md">
+                <Tabs value={sourceMode} onValueChange={(value) => setSourceMode(value as "transcriptions" | "text")}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="transcriptions" data-testid="tab-source-transcriptions">Transcrições</TabsTrigger>
+                    <TabsTrigger value="text" data-testid="tab-source-text">Texto externo</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="transcriptions" className="space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <ProjectFilter projects={projects || []} value={projectFilter} onChange={setProjectFilter} />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={toggleAllVisible}
+                        disabled={visibleTranscriptions.length === 0}
+                        data-testid="button-select-all-transcriptions"
+                      >
+                        {allVisibleSelected ? "Desmarcar todas" : "Selecionar todas"}
+                      </Button>
+                    </div>
+
+                    <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+                      {visibleTranscriptions.map((t) => {
+                        const position = selectedIds.indexOf(t.id);
+                        return (
+                          <label
+                            key={t.id}
+                            className="flex items-center gap-3 p-3 cursor-pointer hover-elevate"
+                            data-testid={`option-transcription-${t.id}`}
+                          >
+                            <Checkbox
+                              checked={position >= 0}
+                              onCheckedChange={(checked) => toggleTranscription(t.id, checked === true)}
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">{t.title}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {t.wordCount?.toLocaleString() || 0} palavras
+                              </p>
+                            </div>
+                            {position >= 0 && selectedIds.length > 1 && (
+                              <span className="text-xs text-muted-foreground">Entrevista {position + 1}</span>
+                            )}
+                          </label>
+                        );
+                      })}
+                      {visibleTranscriptions.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center p-6">
+                          Nenhuma transcrição concluída
+                        </p>
+                      )}
+                    </div>
+
+                    {selectedTranscriptions.length === 1 && (
+                      <div className="p-4 bg-muted rounded-md">
+                        <p className="text-sm text-muted-foreground">
+                          {selectedTranscriptions[0].wordCount?.toLocaleString()} palavras •{" "}
+                          {selectedTranscriptions[0].pageCount} páginas
+                        </p>
+                        <p className="text-sm mt-2 line-clamp-3">
+                          {selectedTranscriptions[0].transcriptionText?.substring(0, 200)}...
+                        </p>
+                      </div>
+                    )}
+
+                    {selectedTranscriptions.length > 1 && (
+                      <div className="p-4 bg-muted rounded-md" data-testid="text-corpus-summary">
+                        <p className="text-sm text-muted-foreground">
+                          {selectedTranscriptions.length} entrevistas • {selectedWordCount.toLocaleString()} palavras
+                        </p>
+                      </div>
+                    )}
+
+                  </TabsContent>
+
+                  <TabsContent value="text" className="space-y-4">
                     <p className="text-sm text-muted-foreground">
-                      {selectedTranscription.wordCount?.toLocaleString()} palavras •{" "}
-                      {selectedTranscription.pageCount} páginas
+                      Grupos focais digitados, respostas abertas de questionários e outros textos. A análise é cobrada pela faixa de páginas do texto.
                     </p>
-                    <p className="text-sm mt-2 line-clamp-3">
-                      {selectedTranscription.transcriptionText?.substring(0, 200)}...
-                    </p>
-                  </div>
-                )}
+                    {!externalFile ? (
+                      <>
+                        <Textarea
+                          value={externalText}
+                          onChange={(e) => setExternalText(e.target.value)}
+                          placeholder="Cole aqui o texto que deseja analisar..."
+                          className="min-h-[200px]"
+                          data-testid="textarea-external-text"
+                        />
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <p className="text-sm text-muted-foreground">
+                            {externalWordCount.toLocaleString()} palavras • {Math.ceil(externalWordCount / 250)} páginas
+                          </p>
+                          <Label htmlFor="external-upload">
+                            <Button type="button" variant="outline" size="sm" asChild>
+                              <span>
+                                <Upload className="mr-2 h-4 w-4" />
+                                Enviar arquivo
+                              </span>
+                            </Button>
+                          </Label>
+                          <Input
+                            id="external-upload"
+                            type="file"
+                            accept={DOCUMENT_ACCEPT}
+                            className="hidden"
+                            onChange={(e) => {
+                              if (e.target.files?.[0]) {
+                                handleExternalFile(e.target.files[0]);
+                              }
+                            }}
+                            data-testid="input-external-file"
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <div className="border rounded-lg p-4">
+                        <div className="flex items-center gap-4">
+                          <div className="flex items-center justify-center h-10 w-10 rounded-md bg-primary/10">
+                            <FileText className="h-5 w-5 text-primary" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{externalFile.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {(externalFile.size / 1024).toFixed(1)} KB
+                            </p>
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setExternalFile(null)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Idioma da análise</Label>
+                      <Select value={externalLanguage} onValueChange={setExternalLanguage}>
+                        <SelectTrigger data-testid="select-external-language">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pt">Português</SelectItem>
+                          <SelectItem value="es">Español</SelectItem>
+                          <SelectItem value="en">English</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </TabsContent>
+                </Tabs>
 
                 <div className="space-y-2">
                   <Label htmlFor="title">Título da Análise</Label>
                   <Input
                     id="title"
                     value={title}
-                    onChange={(e) => setTitle(e.target.value)}
+                    onChange={(e) => {
+                      setTitle(e.target.value);
+                      setTitleEdited(true);
+                    }}
                     placeholder="Ex: Análise Qualitativa - Entrevista 01"
                     data-testid="input-title"
                   />
@@ -307,6 +524,45 @@ export default function NewAnalysisPage() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shapes className="h-5 w-5" />
+                  Categorização
+                </CardTitle>
+                <CardDescription>
+                  Deixe as categorias emergirem do material ou classifique-o numa grade de categorias definida de antemão
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs value={analysisMode} onValueChange={(value) => setAnalysisMode(value as AnalysisMode)}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="emergent" data-testid="tab-mode-emergent">Emergente</TabsTrigger>
+                    <TabsTrigger value="deductive" data-testid="tab-mode-deductive">Grade fechada (dedutiva)</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="emergent">
+                    <p className="text-sm text-muted-foreground">
+                      As categorias são criadas a partir das unidades de registro encontradas no material.
+                    </p>
+                  </TabsContent>
+
+                  <TabsContent value="deductive" className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      As unidades de registro são classificadas somente nas categorias abaixo, segundo suas definições operacionais.
+                      As que não se encaixam em nenhuma são listadas à parte.
+                    </p>
+                    <CategoryGridEditor grid={categoryGrid} onChange={setCategoryGrid} projects={projects || []} />
+                    {!isCategoryGridComplete(categoryGrid) && (
+                      <p className="text-sm text-muted-foreground">
+                        Cada categoria precisa de um nome único e de uma definição.
+                      </p>
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -314,7 +570,7 @@ export default function NewAnalysisPage() {
                   Referencial Teórico (Opcional)
                 </CardTitle>
                 <CardDescription>
-                  Envie um arquivo PDF/TXT ou cole o texto do seu referencial para contextualizar a análise
+                  Envie um arquivo PDF, DOCX, ODT, RTF ou TXT ou cole o texto do seu referencial para contextualizar a análise
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -335,7 +591,7 @@ export default function NewAnalysisPage() {
                       <p className="font-medium mb-1">
                         Arraste seu arquivo aqui
                       </p>
-                      <p className="text-sm text-muted-foreground mb-3">PDF ou TXT</p>
+                      <p className="text-sm text-muted-foreground mb-3">PDF, DOCX, ODT, RTF ou TXT</p>
                       <Label htmlFor="theoretical-upload">
                         <Button type="button" variant="outline" size="sm" asChild>
                           <span>Selecionar Arquivo</span>
@@ -344,7 +600,7 @@ export default function NewAnalysisPage() {
                       <Input
                         id="theoretical-upload"
                         type="file"
-                        accept=".pdf,.txt,application/pdf,text/plain"
+                        accept={DOCUMENT_ACCEPT}
                         className="hidden"
                         onChange={(e) => {
                           if (e.target.files?.[0]) {
@@ -401,7 +657,7 @@ export default function NewAnalysisPage() {
             <Button
               type="submit"
               className="w-full"
-              disabled={!selectedTranscriptionId || !title.trim() || !canAnalyze || createAnalysisMutation.isPending}
+              disabled={!hasInput || !title.trim() || !hasCategories || !canAnalyze || createAnalysisMutation.isPending}
               data-testid="button-submit-analysis"
             >
               {createAnalysisMutation.isPending ? (
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link, useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  FileAudio,
+  ArrowLeft,
+  Plus,
+  Sparkles,
+  LogOut,
+  CreditCard,
+  FolderOpen,
+  FileText,
+  Clock,
+  Brain,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { ProjectFormDialog, formatTotalDuration } from "@/components/project-controls";
+import { CodebookCard } from "@/components/codebook";
+import type { Analysis, ProjectWithSummary, Transcription } from "@shared/schema";
+
+const RECENT_ITEMS = 5;
+
+export default function ProjectDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const { data: project, isLoading } = useQuery<ProjectWithSummary>({
+    queryKey: ["/api/projects", id],
+  });
+
+  const { data: transcriptions } = useQuery<Transcription[]>({
+    queryKey: ["/api/transcriptions"],
+  });
+
+  const { data: analyses } = useQuery<Analysis[]>({
+    queryKey: ["/api/analyses"],
+  });
+
+  const projectTranscriptions = (transcriptions || []).filter((t) => t.projectId === project?.id);
+  const projectAnalyses = (analyses || []).filter((a) => a.projectId === project?.id);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { name: string; description: string | null }) => {
+      return apiRequest("PUT", `/api/projects/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setIsEditOpen(false);
+      toast({ title: "Projeto atualizado" });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao salvar",
+        description: "Não foi possível atualizar o projeto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/projects/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+      toast({ title: "Projeto excluído" });
+      navigate("/projetos");
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o projeto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getInitials = (firstName?: string | null, lastName?: string | null) => {
+    const first = firstName?.charAt(0) || "";
+    const last = lastName?.charAt(0) || "";
+    return (first + last).toUpperCase() || "U";
+  };
+
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return "—";
+    return new Date(date).toLocaleDateString("pt-BR", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+          <div className="max-w-7xl mx-auto px-6 h-16 flex items-center">
+            <Skeleton className="h-8 w-48" />
+          </div>
+        </header>
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          <Skeleton className="h-8 w-64 mb-4" />
+          <div className="grid gap-6 md:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-28" />
+            ))}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <FolderOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Projeto não encontrado</h2>
+            <p className="text-muted-foreground mb-4">
+              O projeto solicitado não existe ou foi removido.
+            </p>
+            <Button asChild>
+              <Link href="/projetos">Voltar para Projetos</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: "Entrevistas", value: project.interviewCount.toString(), icon: FileText },
+    { label: "Duração total", value: formatTotalDuration(project.totalDuration), icon: Clock },
+    { label: "Análises", value: project.analysisCount.toString(), icon: Brain },
+    { label: "Créditos gastos", value: project.creditsSpent.toString(), icon: Sparkles },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/projetos">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Link href="/" className="flex items-center gap-2">
+              <FileAudio className="h-8 w-8 text-primary" />
+              <span className="text-xl font-bold hidden sm:inline">IA Transcreve</span>
+            </Link>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/creditos">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                <span className="font-semibold">{user?.credits || 0}</span>
+              </Button>
+            </Link>
+            <ThemeToggle />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="relative h-9 w-9 rounded-full">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={user?.profileImageUrl || undefined} className="object-cover" />
+                    <AvatarFallback>{getInitials(user?.firstName, user?.lastName)}</AvatarFallback>
+                  </Avatar>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56" align="end" forceMount>
+                <DropdownMenuLabel className="font-normal">
+                  <div className="flex flex-col space-y-1">
+                    <p className="text-sm font-medium">{user?.firstName} {user?.lastName}</p>
+                    <p className="text-xs text-muted-foreground">{user?.email}</p>
+                  </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/creditos" className="cursor-pointer">
+                    <CreditCard className="mr-2 h-4 w-4" />
+                    Meus Créditos
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <a href="/api/logout" className="cursor-pointer text-destructive">
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Sair
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <FolderOpen className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-bold" data-testid="text-project-name">{project.name}</h1>
+            </div>
+            {project.description && (
+              <p className="text-muted-foreground max-w-3xl whitespace-pre-wrap">{project.description}</p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button asChild data-testid="button-project-upload">
+              <Link href={`/upload?projeto=${project.id}`}>
+                <Plus className="mr-2 h-4 w-4" />
+                Nova Transcrição
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={() => setIsEditOpen(true)} data-testid="button-edit-project">
+              <Pencil className="mr-2 h-4 w-4" />
+              Editar
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="icon" className="text-destructive hover:text-destructive" data-testid="button-delete-project">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Excluir projeto?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    O projeto "{project.name}" será excluído. Suas transcrições e análises são mantidas, sem projeto.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => deleteMutation.mutate()}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Excluir
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+          {stats.map((stat) => (
+            <Card key={stat.label}>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{stat.label}</CardTitle>
+                <stat.icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{stat.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <div>
+                <CardTitle>Transcrições</CardTitle>
+                <CardDescription>Entrevistas mais recentes do projeto</CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href={`/transcricoes?projeto=${project.id}`}>Ver todas</Link>
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {projectTranscriptions.slice(0, RECENT_ITEMS).map((transcription) => (
+                <Link
+                  key={transcription.id}
+                  href={`/transcricoes/${transcription.id}`}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3 hover-elevate"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{transcription.title}</div>
+                    <div className="text-xs text-muted-foreground">{formatDate(transcription.createdAt)}</div>
+                  </div>
+                  {transcription.status === "completed" ? (
+                    <Badge variant="default" className="bg-green-600">Concluído</Badge>
+                  ) : (
+                    <Badge variant="outline">{transcription.status}</Badge>
+                  )}
+                </Link>
+              ))}
+              {projectTranscriptions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">Nenhuma transcrição neste projeto.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <div>
+                <CardTitle>Análises</CardTitle>
+                <CardDescription>Análises Bardin do projeto</CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href={`/analises?projeto=${project.id}`}>Ver todas</Link>
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {projectAnalyses.slice(0, RECENT_ITEMS).map((analysis) => (
+                <Link
+                  key={analysis.id}
+                  href={`/analises/${analysis.id}`}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3 hover-elevate"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{analysis.title}</div>
+                    <div className="text-xs text-muted-foreground">{formatDate(analysis.createdAt)}</div>
+                  </div>
+                  {analysis.status === "completed" ? (
+                    <Badge variant="default" className="bg-green-600">Concluído</Badge>
+                  ) : (
+                    <Badge variant="outline">{analysis.status}</Badge>
+                  )}
+                </Link>
+              ))}
+              {projectAnalyses.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">Nenhuma análise neste projeto.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <CodebookCard projectId={project.id} />
+      </main>
+
+      <ProjectFormDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        title="Editar projeto"
+        initial={{ name: project.name, description: project.description }}
+        isPending={updateMutation.isPending}
+        onSubmit={(data) => updateMutation.mutate(data)}
+      />
+    </div>
+  );
+}
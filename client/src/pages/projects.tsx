@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  FileAudio,
+  Plus,
+  Sparkles,
+  LogOut,
+  CreditCard,
+  FolderOpen,
+  FileText,
+  Clock,
+  Brain,
+} from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { ProjectFormDialog, formatTotalDuration } from "@/components/project-controls";
+import type { Project, ProjectWithSummary } from "@shared/schema";
+
+export default function ProjectsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: projects, isLoading } = useQuery<ProjectWithSummary[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; description: string | null }) => {
+      const res = await apiRequest("POST", "/api/projects", data);
+      return res.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setIsCreateOpen(false);
+      toast({ title: "Projeto criado" });
+      navigate(`/projetos/${project.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao criar projeto",
+        description: "Não foi possível criar o projeto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getInitials = (firstName?: string | null, lastName?: string | null) => {
+    const first = firstName?.charAt(0) || "";
+    const last = lastName?.charAt(0) || "";
+    return (first + last).toUpperCase() || "U";
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-6">
+            <Link href="/" className="flex items-center gap-2">
+              <FileAudio className="h-8 w-8 text-primary" />
+              <span className="text-xl font-bold">IA Transcreve</span>
+            </Link>
+            <nav className="hidden md:flex items-center gap-1">
+              <Button variant="ghost" asChild>
+                <Link href="/">Dashboard</Link>
+              </Button>
+              <Button variant="secondary" asChild>
+                <Link href="/projetos">Projetos</Link>
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/transcricoes">Transcrições</Link>
+              </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/analises">Análises</Link>
+              </Button>
+            </nav>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/creditos">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                <span className="font-semibold">{user?.credits || 0}</span>
+              </Button>
+            </Link>
+            <ThemeToggle />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="relative h-9 w-9 rounded-full">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={user?.profileImageUrl || undefined} className="object-cover" />
+                    <AvatarFallback>{getInitials(user?.firstName, user?.lastName)}</AvatarFallback>
+                  </Avatar>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56" align="end" forceMount>
+                <DropdownMenuLabel className="font-normal">
+                  <div className="flex flex-col space-y-1">
+                    <p className="text-sm font-medium">{user?.firstName} {user?.lastName}</p>
+                    <p className="text-xs text-muted-foreground">{user?.email}</p>
+                  </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/creditos" className="cursor-pointer">
+                    <CreditCard className="mr-2 h-4 w-4" />
+                    Meus Créditos
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <a href="/api/logout" className="cursor-pointer text-destructive">
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Sair
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Projetos</h1>
+            <p className="text-muted-foreground">
+              {projects?.length || 0} estudos
+            </p>
+          </div>
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-project">
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Projeto
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-40" />
+            ))}
+          </div>
+        ) : projects && projects.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {projects.map((project) => (
+              <Link key={project.id} href={`/projetos/${project.id}`}>
+                <Card className="hover-elevate cursor-pointer h-full" data-testid={`card-project-${project.id}`}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <FolderOpen className="h-5 w-5 text-primary" />
+                      <span className="truncate">{project.name}</span>
+                    </CardTitle>
+                    {project.description && (
+                      <CardDescription className="line-clamp-2">{project.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <FileText className="h-3 w-3" />
+                        {project.interviewCount} entrevistas
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {formatTotalDuration(project.totalDuration)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Brain className="h-3 w-3" />
+                        {project.analysisCount} análises
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Sparkles className="h-3 w-3" />
+                        {project.creditsSpent} créditos
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12">
+              <FolderOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Nenhum projeto ainda</h3>
+              <p className="text-muted-foreground mb-4">
+                Crie um projeto para cada estudo e organize suas entrevistas e análises
+              </p>
+              <Button onClick={() => setIsCreateOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Novo Projeto
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <ProjectFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        title="Novo projeto"
+        isPending={createMutation.isPending}
+        onSubmit={(data) => createMutation.mutate(data)}
+      />
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams, Link, useLocation } from "wouter";
+import { useParams, Link, useLocation, useSearch } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatTimestamp } from "@/lib/format";
+import { passageMatches } from "@/lib/quotes";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -59,16 +61,28 @@ import {
   Check,
   Pencil,
   Type,
+  Captions,
+  Users,
+  Merge,
+  Play,
+  AlertTriangle,
+  ShieldCheck,
+  History,
+  GitCompare,
+  Tags,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import type { Transcription, TranscriptionSegment, TranscriptionChunkProgress } from "@shared/schema";
-import { CheckCircle2, Circle, AlertCircle } from "lucide-react";
-
-function formatTimestamp(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
+import { CodingWorkbench } from "@/components/coding-workbench";
+import type {
+  Transcription,
+  TranscriptionSegment,
+  TranscriptionChunkProgress,
+  TranscriptionSpeaker,
+  TranscriptionWord,
+  TranscriptionRevisionSummary,
+  TranscriptionRevisionDiff,
+} from "@shared/schema";
+import { CheckCircle2, Circle, AlertCircle, RotateCcw } from "lucide-react";
 
 function formatDuration(seconds: number | null | undefined): string {
   if (!seconds) return "";
@@ -82,6 +96,379 @@ function formatDuration(seconds: number | null | undefined): string {
   return `${mins}m ${secs}s`;
 }
 
+// Words below this confidence are highlighted for review
+const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[.,!?;:"'()\[\]«»“”…¿¡-]/g, "");
+}
+
+// Pairs each word of the (possibly edited) segment text with the recognised word it came
+// from; words the reviewer changed find no match and are shown without a score
+function alignWordConfidence(text: string, words: TranscriptionWord[]): { text: string; confidence?: number }[] {
+  let next = 0;
+  return text.split(/(\s+)/).map((token) => {
+    const key = normalizeWord(token);
+    if (!key) return { text: token };
+    for (let j = next; j < Math.min(words.length, next + 4); j++) {
+      if (normalizeWord(words[j].word) === key) {
+        next = j + 1;
+        return { text: token, confidence: words[j].confidence };
+      }
+    }
+    return { text: token };
+  });
+}
+
+const SPEAKER_ROLE_LABELS: Record<TranscriptionSpeaker["role"], string> = {
+  interviewer: "Entrevistador",
+  interviewee: "Entrevistado",
+  other: "Outro",
+};
+
+// Roster as saved, plus any label only found in the segments (older transcriptions)
+function buildSpeakerRoster(speakers: TranscriptionSpeaker[] | null, segments: TranscriptionSegment[] | null): TranscriptionSpeaker[] {
+  const roster = [...(speakers || [])];
+  for (const segment of segments || []) {
+    if (segment.speaker && !roster.some((s) => s.label === segment.speaker)) {
+      roster.push({ label: segment.speaker, role: "other" });
+    }
+  }
+  return roster;
+}
+
+interface SpeakerPanelProps {
+  speakers: TranscriptionSpeaker[];
+  segmentCounts: Record<string, number>;
+  onRename: (from: string, to: string) => void;
+  onMerge: (from: string, into: string) => void;
+}
+
+function SpeakerPanel({ speakers, segmentCounts, onRename, onMerge }: SpeakerPanelProps) {
+  const [editingLabel, setEditingLabel] = useState<string | null>(null);
+  const [newLabel, setNewLabel] = useState("");
+
+  const startRename = (label: string) => {
+    setEditingLabel(label);
+    setNewLabel(label);
+  };
+
+  const confirmRename = () => {
+    if (editingLabel) onRename(editingLabel, newLabel);
+    setEditingLabel(null);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="h-4 w-4" />
+          Falantes
+        </CardTitle>
+        <CardDescription>
+          Renomeie um falante em toda a transcrição (ex.: código de participante) ou una falantes detectados em duplicidade.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {speakers.map((speaker) => (
+          <div
+            key={speaker.label}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2"
+            data-testid={`speaker-row-${speaker.label}`}
+          >
+            {editingLabel === speaker.label ? (
+              <div className="flex flex-1 items-center gap-2">
+                <Input
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") confirmRename();
+                    if (e.key === "Escape") setEditingLabel(null);
+                  }}
+                  className="h-8 max-w-xs"
+                  autoFocus
+                  data-testid="input-speaker-label"
+                />
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={confirmRename} data-testid="button-save-speaker">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingLabel(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{speaker.label}</span>
+                <Badge variant="outline" className="text-xs">{SPEAKER_ROLE_LABELS[speaker.role]}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {segmentCounts[speaker.label] || 0} trechos
+                </span>
+              </div>
+            )}
+            {editingLabel !== speaker.label && (
+              <div className="flex items-center gap-1">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => startRename(speaker.label)}
+                      data-testid={`button-rename-speaker-${speaker.label}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Renomear</TooltipContent>
+                </Tooltip>
+                {speakers.length > 1 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        data-testid={`button-merge-speaker-${speaker.label}`}
+                      >
+                        <Merge className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Mesclar com</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {speakers
+                        .filter((other) => other.label !== speaker.label)
+                        .map((other) => (
+                          <DropdownMenuItem key={other.label} onClick={() => onMerge(speaker.label, other.label)}>
+                            {other.label}
+                          </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+const REVISION_SOURCE_LABELS: Record<string, string> = {
+  transcription: "Transcrição original",
+  edit: "Edição",
+  restore: "Restauração",
+};
+
+function formatRevisionDate(date: Date | string | null): string {
+  if (!date) return "—";
+  return new Date(date).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+interface RevisionHistoryProps {
+  transcriptionId: string;
+  hasUnsavedChanges: boolean;
+  onRestore: (revisionId: number) => void;
+  isRestoring: boolean;
+}
+
+function RevisionHistory({ transcriptionId, hasUnsavedChanges, onRestore, isRestoring }: RevisionHistoryProps) {
+  const [compareId, setCompareId] = useState<number | null>(null);
+
+  const { data: revisions } = useQuery<TranscriptionRevisionSummary[]>({
+    queryKey: ["/api/transcriptions", transcriptionId, "revisions"],
+  });
+
+  const current = revisions?.[0];
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<TranscriptionRevisionDiff>({
+    queryKey: [`/api/transcriptions/${transcriptionId}/revisions/diff?from=${compareId}&to=${current?.id}`],
+    enabled: compareId !== null && !!current,
+  });
+
+  if (!revisions || revisions.length === 0) return null;
+
+  const compared = revisions.find((r) => r.id === compareId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Histórico de versões
+        </CardTitle>
+        <CardDescription>
+          Cada salvamento gera uma versão. Compare uma versão anterior com a atual ou restaure-a.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-64 overflow-y-auto">
+          <div className="space-y-2">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 ${compareId === revision.id ? "border-primary" : ""}`}
+                data-testid={`revision-row-${revision.id}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">{REVISION_SOURCE_LABELS[revision.source] || revision.source}</span>
+                  {index === 0 && <Badge variant="default">Atual</Badge>}
+                  <span className="text-muted-foreground">{formatRevisionDate(revision.createdAt)}</span>
+                  {revision.wordCount !== null && (
+                    <span className="text-xs text-muted-foreground">{revision.wordCount} palavras</span>
+                  )}
+                </div>
+                {index > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant={compareId === revision.id ? "secondary" : "ghost"}
+                      onClick={() => setCompareId(compareId === revision.id ? null : revision.id)}
+                      data-testid={`button-compare-revision-${revision.id}`}
+                    >
+                      <GitCompare className="mr-2 h-3 w-3" />
+                      Comparar
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={isRestoring || hasUnsavedChanges}
+                          data-testid={`button-restore-revision-${revision.id}`}
+                        >
+                          <RotateCcw className="mr-2 h-3 w-3" />
+                          Restaurar
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Restaurar esta versão?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            O texto, os trechos e os falantes voltarão ao estado de {formatRevisionDate(revision.createdAt)}.
+                            A versão atual continua no histórico.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => {
+                              setCompareId(null);
+                              onRestore(revision.id);
+                            }}
+                            data-testid="button-confirm-restore"
+                          >
+                            Restaurar
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        {hasUnsavedChanges && revisions.length > 1 && (
+          <p className="text-xs text-muted-foreground">Salve ou descarte as alterações atuais antes de restaurar uma versão.</p>
+        )}
+
+        {compared && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="font-medium">
+                {REVISION_SOURCE_LABELS[compared.source] || compared.source} ({formatRevisionDate(compared.createdAt)}) → Atual
+              </span>
+              {diff && (
+                <span className="text-muted-foreground">
+                  <span className="text-green-600">+{diff.wordsInserted}</span>{" "}
+                  <span className="text-destructive">−{diff.wordsDeleted}</span> palavras
+                </span>
+              )}
+            </div>
+            {isDiffLoading || !diff ? (
+              <Skeleton className="h-40" />
+            ) : (
+              <ScrollArea className="h-[400px] pr-4">
+                <div className="whitespace-pre-wrap text-sm leading-relaxed" data-testid="text-revision-diff">
+                  {diff.changes.map((change, i) =>
+                    change.type === "insert" ? (
+                      <ins key={i} className="bg-green-100 dark:bg-green-900/40 no-underline">{change.text}</ins>
+                    ) : change.type === "delete" ? (
+                      <del key={i} className="bg-red-100 dark:bg-red-900/40 text-muted-foreground">{change.text}</del>
+                    ) : (
+                      <span key={i}>{change.text}</span>
+                    )
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ChunkProgressGridProps {
+  chunks: TranscriptionChunkProgress[];
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+function ChunkProgressGrid({ chunks, onRetry, isRetrying }: ChunkProgressGridProps) {
+  const failedCount = chunks.filter((chunk) => chunk.status === "error").length;
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-xs text-muted-foreground mb-2">Detalhes por parte:</p>
+      <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-2">
+        {chunks.map((chunk, idx) => (
+          <div 
+            key={idx}
+            className="flex flex-col items-center justify-center"
+            title={chunk.error ? `Parte ${idx + 1}: ${chunk.status} - ${chunk.error}` : `Parte ${idx + 1}: ${chunk.status}`}
+            data-testid={`chunk-status-${idx}`}
+          >
+            {chunk.status === "completed" ? (
+              <CheckCircle2 className="h-5 w-5 text-green-500" />
+            ) : chunk.status === "processing" ? (
+              <Loader2 className="h-5 w-5 text-primary animate-spin" />
+            ) : chunk.status === "error" ? (
+              <AlertCircle className="h-5 w-5 text-destructive" />
+            ) : (
+              <Circle className="h-5 w-5 text-muted-foreground/50" />
+            )}
+            <span className="text-[10px] text-muted-foreground mt-0.5">{idx + 1}</span>
+          </div>
+        ))}
+      </div>
+      {failedCount > 0 && onRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onClick={onRetry}
+          disabled={isRetrying}
+          data-testid="button-retry-chunks"
+        >
+          {isRetrying ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCcw className="mr-2 h-4 w-4" />
+          )}
+          Reprocessar {failedCount === 1 ? "a parte com erro" : `as ${failedCount} partes com erro`}
+        </Button>
+      )}
+    </div>
+  );
+}
+
 interface SegmentEditorProps {
   segment: TranscriptionSegment;
   index: number;
@@ -90,10 +477,41 @@ interface SegmentEditorProps {
   onStartEdit: () => void;
   onCancelEdit: () => void;
   onCopy: (text: string) => void;
+  speakers: string[];
+  onSpeakerChange: (index: number, speaker: string) => void;
+  isActive?: boolean;
+  onSeek?: (seconds: number) => void;
+  words?: TranscriptionWord[];
+  highlightUncertain?: boolean;
+  // Character range of the segment text marked as the passage an analysis quote came from
+  passage?: { start: number; end: number };
 }
 
-function SegmentEditor({ segment, index, onUpdate, isEditing, onStartEdit, onCancelEdit, onCopy }: SegmentEditorProps) {
+function SegmentEditor({
+  segment,
+  index,
+  onUpdate,
+  isEditing,
+  onStartEdit,
+  onCancelEdit,
+  onCopy,
+  speakers,
+  onSpeakerChange,
+  isActive,
+  onSeek,
+  words,
+  highlightUncertain,
+  passage,
+}: SegmentEditorProps) {
   const [editText, setEditText] = useState(segment.text);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Follow playback through the list
+  useEffect(() => {
+    if (isActive) {
+      containerRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [isActive]);
 
   useEffect(() => {
     setEditText(segment.text);
@@ -119,7 +537,7 @@ function SegmentEditor({ segment, index, onUpdate, isEditing, onStartEdit, onCan
 
   const getSpeakerIcon = (speaker?: string) => {
     if (!speaker) return <Mic className="h-4 w-4" />;
-    if (speaker.toLowerCase().includes("entrevistador")) {
+    if (/entrevistador|interviewer/.test(speaker.toLowerCase())) {
       return <User className="h-4 w-4" />;
     }
     return <Mic className="h-4 w-4" />;
@@ -127,20 +545,61 @@ function SegmentEditor({ segment, index, onUpdate, isEditing, onStartEdit, onCan
 
   const getSpeakerColor = (speaker?: string) => {
     if (!speaker) return "text-muted-foreground";
-    if (speaker.toLowerCase().includes("entrevistador")) {
+    if (/entrevistador|interviewer/.test(speaker.toLowerCase())) {
       return "text-blue-600 dark:text-blue-400";
     }
     return "text-green-600 dark:text-green-400";
   };
 
   return (
-    <div className="group border-b border-border/50 py-3 last:border-0">
+    <div
+      ref={containerRef}
+      className={`group border-b border-border/50 py-3 last:border-0 ${isActive ? "bg-primary/5 border-l-2 border-l-primary" : ""}`}
+      data-testid={`segment-${index}`}
+    >
       <div className="flex items-start gap-3">
         <div className="flex flex-col items-center gap-1 min-w-[100px]">
-          <Badge variant="outline" className="text-xs font-mono">
-            {formatTimestamp(segment.start)}
-          </Badge>
-          {segment.speaker && (
+          {onSeek ? (
+            <button
+              onClick={() => onSeek(segment.start)}
+              title="Ouvir a partir deste trecho"
+              data-testid={`button-seek-${index}`}
+            >
+              <Badge variant={isActive ? "default" : "outline"} className="text-xs font-mono gap-1">
+                <Play className="h-3 w-3" />
+                {formatTimestamp(segment.start)}
+              </Badge>
+            </button>
+          ) : (
+            <Badge variant="outline" className="text-xs font-mono">
+              {formatTimestamp(segment.start)}
+            </Badge>
+          )}
+          {speakers.length > 0 ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className={`flex items-center gap-1 text-xs rounded px-1 hover-elevate ${getSpeakerColor(segment.speaker)}`}
+                  data-testid={`button-speaker-${index}`}
+                >
+                  {getSpeakerIcon(segment.speaker)}
+                  <span className="text-xs font-medium" data-testid={`text-speaker-${index}`}>
+                    {segment.speaker || "Sem falante"}
+                  </span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuLabel>Atribuir trecho a</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {speakers.map((speaker) => (
+                  <DropdownMenuItem key={speaker} onClick={() => onSpeakerChange(index, speaker)}>
+                    {speaker === segment.speaker ? <Check className="mr-2 h-3 w-3" /> : <span className="mr-2 w-3" />}
+                    {speaker}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : segment.speaker && (
             <div className={`flex items-center gap-1 text-xs ${getSpeakerColor(segment.speaker)}`}>
               {getSpeakerIcon(segment.speaker)}
               <span className="text-xs font-medium" data-testid={`text-speaker-${index}`}>
@@ -183,7 +642,32 @@ function SegmentEditor({ segment, index, onUpdate, isEditing, onStartEdit, onCan
                 onClick={onStartEdit}
                 data-testid={`text-segment-${index}`}
               >
-                {segment.text}
+                {passage ? (
+                  <>
+                    {segment.text.slice(0, passage.start)}
+                    <mark
+                      className="bg-primary/20 text-inherit rounded-sm"
+                      data-testid={`mark-passage-${index}`}
+                    >
+                      {segment.text.slice(passage.start, passage.end)}
+                    </mark>
+                    {segment.text.slice(passage.end)}
+                  </>
+                ) : highlightUncertain && words && words.length > 0
+                  ? alignWordConfidence(segment.text, words).map((token, i) =>
+                      token.confidence !== undefined && token.confidence < LOW_CONFIDENCE_THRESHOLD ? (
+                        <mark
+                          key={i}
+                          className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded-sm"
+                          title={`Confiança: ${Math.round(token.confidence * 100)}%`}
+                        >
+                          {token.text}
+                        </mark>
+                      ) : (
+                        token.text
+                      )
+                    )
+                  : segment.text}
                 <Edit3 className="h-3 w-3 ml-2 inline-block opacity-0 group-hover:opacity-50 transition-opacity" />
               </div>
               <Button
@@ -213,6 +697,7 @@ export default function TranscriptionDetailPage() {
   const { toast } = useToast();
   const [editingSegmentIndex, setEditingSegmentIndex] = useState<number | null>(null);
   const [localSegments, setLocalSegments] = useState<TranscriptionSegment[]>([]);
+  const [localSpeakers, setLocalSpeakers] = useState<TranscriptionSpeaker[]>([]);
   const [isFullEditMode, setIsFullEditMode] = useState(false);
   const [fullEditText, setFullEditText] = useState("");
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -220,6 +705,23 @@ export default function TranscriptionDetailPage() {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editedTitle, setEditedTitle] = useState("");
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [highlightUncertain, setHighlightUncertain] = useState(true);
+  const searchParams = useSearch();
+  // Opened from a search hit (?t=<seconds>): jump to that moment
+  const initialTime = useMemo(() => {
+    const t = parseFloat(new URLSearchParams(searchParams).get("t") || "");
+    return isNaN(t) ? null : t;
+  }, [searchParams]);
+  // Opened from an analysis quote (?trecho=<segment>:<start>-<end>&citacao=<opening>): mark the quoted
+  // passage, as long as the segment has not been edited away from it
+  const quotedPassage = useMemo(() => {
+    const params = new URLSearchParams(searchParams);
+    const match = /^(\d+):(\d+)-(\d+)$/.exec(params.get("trecho") || "");
+    if (!match) return null;
+    return { segmentIndex: Number(match[1]), start: Number(match[2]), end: Number(match[3]), opening: params.get("citacao") || "" };
+  }, [searchParams]);
 
   const { data: transcription, isLoading, refetch } = useQuery<Transcription>({
     queryKey: ["/api/transcriptions", id],
@@ -233,6 +735,9 @@ export default function TranscriptionDetailPage() {
     if (transcription?.segments) {
       setLocalSegments(transcription.segments);
     }
+    if (transcription) {
+      setLocalSpeakers(buildSpeakerRoster(transcription.speakers, transcription.segments));
+    }
     if (transcription?.transcriptionText) {
       setFullEditText(transcription.transcriptionText);
     }
@@ -241,6 +746,33 @@ export default function TranscriptionDetailPage() {
     }
   }, [transcription]);
 
+  // Recognised words grouped by the segment they fall in; both lists are in time order
+  const segmentWords = useMemo(() => {
+    const words = transcription?.confidence?.words || [];
+    let w = 0;
+    return localSegments.map((segment, i) => {
+      const until = localSegments[i + 1]?.start ?? Infinity;
+      while (w < words.length && words[w].start < segment.start) w++;
+      const from = w;
+      while (w < words.length && words[w].start < until) w++;
+      return words.slice(from, w);
+    });
+  }, [transcription?.confidence, localSegments]);
+
+  const uncertainWordCount = useMemo(
+    () => (transcription?.confidence?.words || []).filter(
+      (w) => w.confidence !== undefined && w.confidence < LOW_CONFIDENCE_THRESHOLD
+    ).length,
+    [transcription?.confidence]
+  );
+
+  const hasLoadedSegments = localSegments.length > 0;
+  useEffect(() => {
+    if (initialTime !== null && hasLoadedSegments) {
+      setPlaybackTime(initialTime);
+    }
+  }, [initialTime, hasLoadedSegments]);
+
   useEffect(() => {
     if (isEditingTitle && titleInputRef.current) {
       titleInputRef.current.focus();
@@ -262,7 +794,12 @@ export default function TranscriptionDetailPage() {
   }, [hasUnsavedChanges]);
 
   const saveMutation = useMutation({
-    mutationFn: async (data: { transcriptionText?: string; segments?: TranscriptionSegment[]; title?: string }) => {
+    mutationFn: async (data: {
+      transcriptionText?: string;
+      segments?: TranscriptionSegment[];
+      speakers?: TranscriptionSpeaker[];
+      title?: string;
+    }) => {
       return apiRequest("PUT", `/api/transcriptions/${id}`, data);
     },
     onSuccess: () => {
@@ -304,6 +841,47 @@ export default function TranscriptionDetailPage() {
     },
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      return apiRequest("POST", `/api/transcriptions/${id}/revisions/${revisionId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      toast({
+        title: "Versão restaurada",
+        description: "A transcrição voltou à versão selecionada.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao restaurar",
+        description: "Não foi possível restaurar esta versão.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryChunksMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/transcriptions/${id}/chunks/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions", id] });
+      toast({
+        title: "Reprocessando partes",
+        description: "As partes com erro foram enviadas novamente para transcrição.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao reprocessar",
+        description: "Não foi possível reprocessar as partes com erro.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSegmentUpdate = useCallback((index: number, newText: string) => {
     setLocalSegments(prev => {
       const updated = [...prev];
@@ -314,9 +892,51 @@ export default function TranscriptionDetailPage() {
     setHasUnsavedChanges(true);
   }, []);
 
+  const handleSpeakerChange = useCallback((index: number, speaker: string) => {
+    setLocalSegments(prev => {
+      const updated = [...prev];
+      updated[index] = { ...updated[index], speaker };
+      return updated;
+    });
+    setHasUnsavedChanges(true);
+  }, []);
+
+  const handleRenameSpeaker = (from: string, to: string) => {
+    const label = to.trim();
+    if (!label || label === from) return;
+    if (localSpeakers.some((s) => s.label === label)) {
+      toast({
+        title: "Nome já utilizado",
+        description: "Já existe um falante com este nome. Use a opção mesclar para unir os dois.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLocalSpeakers(prev => prev.map((s) => (s.label === from ? { ...s, label } : s)));
+    setLocalSegments(prev => prev.map((s) => (s.speaker === from ? { ...s, speaker: label } : s)));
+    setHasUnsavedChanges(true);
+  };
+
+  const handleMergeSpeakers = (from: string, into: string) => {
+    setLocalSpeakers(prev => prev.filter((s) => s.label !== from));
+    setLocalSegments(prev => prev.map((s) => (s.speaker === from ? { ...s, speaker: into } : s)));
+    setHasUnsavedChanges(true);
+    toast({
+      title: "Falantes mesclados",
+      description: `Os trechos de "${from}" foram atribuídos a "${into}".`,
+    });
+  };
+
+  const handleSeek = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(() => {});
+  }, []);
+
   const handleSaveAll = () => {
     const transcriptionText = localSegments.map(s => s.text).join("\n\n");
-    saveMutation.mutate({ transcriptionText, segments: localSegments });
+    saveMutation.mutate({ transcriptionText, segments: localSegments, speakers: localSpeakers });
   };
 
   const handleSaveFullText = () => {
@@ -417,6 +1037,8 @@ export default function TranscriptionDetailPage() {
         return <Badge variant="secondary">Processando</Badge>;
       case "pending":
         return <Badge variant="outline">Pendente</Badge>;
+      case "partial":
+        return <Badge variant="outline" className="border-amber-500 text-amber-600">Incompleta</Badge>;
       case "error":
         return <Badge variant="destructive">Erro</Badge>;
       default:
@@ -424,7 +1046,7 @@ export default function TranscriptionDetailPage() {
     }
   };
 
-  const downloadTranscription = async (format: "txt" | "docx") => {
+  const downloadTranscription = async (format: "txt" | "docx" | "srt" | "vtt") => {
     if (!transcription) return;
     try {
       const response = await fetch(`/api/transcriptions/${id}/download?format=${format}`, {
@@ -505,6 +1127,20 @@ export default function TranscriptionDetailPage() {
   }
 
   const hasSegments = localSegments && localSegments.length > 0;
+  const speakerLabels = localSpeakers.map((s) => s.label);
+  const hasMedia = !!transcription.mediaKey;
+
+  // Segment being played: the last one starting at or before the playback position
+  let activeSegmentIndex = -1;
+  if (playbackTime !== null) {
+    localSegments.forEach((segment, index) => {
+      if (segment.start <= playbackTime) activeSegmentIndex = index;
+    });
+  }
+  const speakerSegmentCounts = localSegments.reduce<Record<string, number>>((counts, segment) => {
+    if (segment.speaker) counts[segment.speaker] = (counts[segment.speaker] || 0) + 1;
+    return counts;
+  }, {});
 
   return (
     <div className="min-h-screen bg-background">
@@ -619,6 +1255,11 @@ export default function TranscriptionDetailPage() {
               {transcription.pageCount && (
                 <span>{transcription.pageCount} páginas</span>
               )}
+              {transcription.detectedLanguage && (
+                <span className="uppercase" data-testid="text-language">
+                  {transcription.detectedLanguage}
+                </span>
+              )}
             </div>
           </div>
           {transcription.status === "completed" && (
@@ -662,8 +1303,27 @@ export default function TranscriptionDetailPage() {
                     <FileText className="mr-2 h-4 w-4" />
                     Formato DOCX
                   </DropdownMenuItem>
+                  {hasSegments && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => downloadTranscription("srt")} data-testid="button-download-srt">
+                        <Captions className="mr-2 h-4 w-4" />
+                        Legendas SRT
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => downloadTranscription("vtt")} data-testid="button-download-vtt">
+                        <Captions className="mr-2 h-4 w-4" />
+                        Legendas WebVTT
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
+              <Button variant="outline" asChild data-testid="button-redact">
+                <Link href={`/transcricoes/${transcription.id}/anonimizacao`}>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Anonimizar
+                </Link>
+              </Button>
               <Button asChild data-testid="button-analyze">
                 <Link href={`/analises/nova?transcricao=${transcription.id}`}>
                   <Brain className="mr-2 h-4 w-4" />
@@ -705,6 +1365,15 @@ export default function TranscriptionDetailPage() {
           )}
         </div>
 
+        {transcription.status === "completed" && localSpeakers.length > 0 && (
+          <SpeakerPanel
+            speakers={localSpeakers}
+            segmentCounts={speakerSegmentCounts}
+            onRename={handleRenameSpeaker}
+            onMerge={handleMergeSpeakers}
+          />
+        )}
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <div>
@@ -745,30 +1414,7 @@ export default function TranscriptionDetailPage() {
                       data-testid="progress-bar"
                     />
                     {transcription.chunkProgress && transcription.chunkProgress.length > 0 && (
-                      <div className="mt-4 space-y-2">
-                        <p className="text-xs text-muted-foreground mb-2">Detalhes por parte:</p>
-                        <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-2">
-                          {(transcription.chunkProgress as TranscriptionChunkProgress[]).map((chunk, idx) => (
-                            <div 
-                              key={idx}
-                              className="flex flex-col items-center justify-center"
-                              title={`Parte ${idx + 1}: ${chunk.status}`}
-                              data-testid={`chunk-status-${idx}`}
-                            >
-                              {chunk.status === "completed" ? (
-                                <CheckCircle2 className="h-5 w-5 text-green-500" />
-                              ) : chunk.status === "processing" ? (
-                                <Loader2 className="h-5 w-5 text-primary animate-spin" />
-                              ) : chunk.status === "error" ? (
-                                <AlertCircle className="h-5 w-5 text-destructive" />
-                              ) : (
-                                <Circle className="h-5 w-5 text-muted-foreground/50" />
-                              )}
-                              <span className="text-[10px] text-muted-foreground mt-0.5">{idx + 1}</span>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
+                      <ChunkProgressGrid chunks={transcription.chunkProgress as TranscriptionChunkProgress[]} />
                     )}
                     {transcription.isPremiumQuality && (
                       <div className="flex items-center justify-center gap-2 mt-4">
@@ -785,6 +1431,22 @@ export default function TranscriptionDetailPage() {
                   </p>
                 )}
               </div>
+            ) : transcription.status === "partial" ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Transcrição incompleta</h3>
+                <p className="text-muted-foreground text-center max-w-md mb-4">
+                  {transcription.completedChunks || 0} de {transcription.totalChunks} partes foram transcritas.
+                  As partes com erro podem ser reprocessadas, sem perder o que já foi concluído.
+                </p>
+                <div className="w-full max-w-md">
+                  <ChunkProgressGrid
+                    chunks={(transcription.chunkProgress || []) as TranscriptionChunkProgress[]}
+                    onRetry={() => retryChunksMutation.mutate()}
+                    isRetrying={retryChunksMutation.isPending}
+                  />
+                </div>
+              </div>
             ) : transcription.status === "error" ? (
               <div className="text-center py-12">
                 <FileText className="h-12 w-12 text-destructive mx-auto mb-4" />
@@ -794,88 +1456,141 @@ export default function TranscriptionDetailPage() {
                 </p>
               </div>
             ) : hasSegments ? (
-              <Tabs defaultValue="segments" className="w-full">
-                <TabsList className="mb-4">
-                  <TabsTrigger value="segments" data-testid="tab-segments">
-                    <Clock className="mr-2 h-4 w-4" />
-                    Com Timestamps
-                  </TabsTrigger>
-                  <TabsTrigger value="full" data-testid="tab-full">
-                    <FileText className="mr-2 h-4 w-4" />
-                    Texto Completo
-                  </TabsTrigger>
-                </TabsList>
-                <TabsContent value="segments">
-                  <ScrollArea className="h-[500px] pr-4">
-                    <div className="space-y-1">
-                      {localSegments.map((segment, index) => (
-                        <SegmentEditor
-                          key={index}
-                          segment={segment}
-                          index={index}
-                          onUpdate={handleSegmentUpdate}
-                          isEditing={editingSegmentIndex === index}
-                          onStartEdit={() => setEditingSegmentIndex(index)}
-                          onCancelEdit={() => setEditingSegmentIndex(null)}
-                          onCopy={copyToClipboard}
-                        />
-                      ))}
-                    </div>
-                  </ScrollArea>
-                </TabsContent>
-                <TabsContent value="full">
-                  <div className="space-y-4">
-                    {isFullEditMode ? (
-                      <>
-                        <Textarea
-                          value={fullEditText}
-                          onChange={(e) => {
-                            setFullEditText(e.target.value);
-                            setHasUnsavedChanges(true);
-                          }}
-                          className="min-h-[400px] font-mono text-sm"
-                          data-testid="textarea-full-edit"
-                        />
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <Button onClick={handleSaveFullText} disabled={saveMutation.isPending}>
-                              {saveMutation.isPending ? (
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              ) : (
-                                <Save className="mr-2 h-4 w-4" />
-                              )}
-                              Salvar
-                            </Button>
-                            <Button variant="outline" onClick={() => {
-                              setFullEditText(transcription.transcriptionText || "");
-                              setIsFullEditMode(false);
-                              setHasUnsavedChanges(false);
-                            }}>
-                              <X className="mr-2 h-4 w-4" />
-                              Cancelar
-                            </Button>
-                          </div>
-                          <span className="text-sm text-muted-foreground">
-                            {fullEditText.split(/\s+/).filter(Boolean).length} palavras | {fullEditText.length} caracteres
-                          </span>
-                        </div>
-                      </>
-                    ) : (
-                      <>
-                        <ScrollArea className="h-[500px] pr-4">
-                          <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap" data-testid="text-transcription">
-                            {transcription.transcriptionText}
-                          </div>
-                        </ScrollArea>
-                        <Button variant="outline" onClick={() => setIsFullEditMode(true)} data-testid="button-edit-full">
-                          <Edit3 className="mr-2 h-4 w-4" />
-                          Editar Texto Completo
-                        </Button>
-                      </>
+              <>
+                {hasMedia && (
+                  <audio
+                    ref={audioRef}
+                    controls
+                    preload="metadata"
+                    src={`/api/transcriptions/${id}/media`}
+                    className="w-full mb-4"
+                    onLoadedMetadata={(e) => {
+                      if (initialTime !== null) e.currentTarget.currentTime = initialTime;
+                    }}
+                    onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                    data-testid="audio-player"
+                  />
+                )}
+                <Tabs defaultValue="segments" className="w-full">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <TabsList>
+                      <TabsTrigger value="segments" data-testid="tab-segments">
+                        <Clock className="mr-2 h-4 w-4" />
+                        Com Timestamps
+                      </TabsTrigger>
+                      <TabsTrigger value="full" data-testid="tab-full">
+                        <FileText className="mr-2 h-4 w-4" />
+                        Texto Completo
+                      </TabsTrigger>
+                      <TabsTrigger value="coding" data-testid="tab-coding">
+                        <Tags className="mr-2 h-4 w-4" />
+                        Codificação
+                      </TabsTrigger>
+                    </TabsList>
+                    {uncertainWordCount > 0 && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant={highlightUncertain ? "secondary" : "outline"}
+                            size="sm"
+                            onClick={() => setHighlightUncertain(!highlightUncertain)}
+                            data-testid="button-toggle-uncertain"
+                          >
+                            <AlertTriangle className="mr-2 h-4 w-4 text-amber-500" />
+                            {uncertainWordCount} palavras incertas
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          {highlightUncertain ? "Ocultar destaque das" : "Destacar"} palavras com confiança abaixo de {LOW_CONFIDENCE_THRESHOLD * 100}%
+                        </TooltipContent>
+                      </Tooltip>
                     )}
                   </div>
-                </TabsContent>
-              </Tabs>
+                  <TabsContent value="segments">
+                    <ScrollArea className="h-[500px] pr-4">
+                      <div className="space-y-1">
+                        {localSegments.map((segment, index) => (
+                          <SegmentEditor
+                            key={index}
+                            segment={segment}
+                            index={index}
+                            onUpdate={handleSegmentUpdate}
+                            isEditing={editingSegmentIndex === index}
+                            onStartEdit={() => setEditingSegmentIndex(index)}
+                            onCancelEdit={() => setEditingSegmentIndex(null)}
+                            onCopy={copyToClipboard}
+                            speakers={speakerLabels}
+                            onSpeakerChange={handleSpeakerChange}
+                            isActive={index === activeSegmentIndex}
+                            onSeek={hasMedia ? handleSeek : undefined}
+                            words={segmentWords[index]}
+                            highlightUncertain={highlightUncertain}
+                            passage={quotedPassage?.segmentIndex === index &&
+                              passageMatches(segment.text, quotedPassage.start, quotedPassage.end, quotedPassage.opening)
+                              ? quotedPassage
+                              : undefined}
+                          />
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </TabsContent>
+                  <TabsContent value="full">
+                    <div className="space-y-4">
+                      {isFullEditMode ? (
+                        <>
+                          <Textarea
+                            value={fullEditText}
+                            onChange={(e) => {
+                              setFullEditText(e.target.value);
+                              setHasUnsavedChanges(true);
+                            }}
+                            className="min-h-[400px] font-mono text-sm"
+                            data-testid="textarea-full-edit"
+                          />
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Button onClick={handleSaveFullText} disabled={saveMutation.isPending}>
+                                {saveMutation.isPending ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Save className="mr-2 h-4 w-4" />
+                                )}
+                                Salvar
+                              </Button>
+                              <Button variant="outline" onClick={() => {
+                                setFullEditText(transcription.transcriptionText || "");
+                                setIsFullEditMode(false);
+                                setHasUnsavedChanges(false);
+                              }}>
+                                <X className="mr-2 h-4 w-4" />
+                                Cancelar
+                              </Button>
+                            </div>
+                            <span className="text-sm text-muted-foreground">
+                              {fullEditText.split(/\s+/).filter(Boolean).length} palavras | {fullEditText.length} caracteres
+                            </span>
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <ScrollArea className="h-[500px] pr-4">
+                            <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap" data-testid="text-transcription">
+                              {transcription.transcriptionText}
+                            </div>
+                          </ScrollArea>
+                          <Button variant="outline" onClick={() => setIsFullEditMode(true)} data-testid="button-edit-full">
+                            <Edit3 className="mr-2 h-4 w-4" />
+                            Editar Texto Completo
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="coding">
+                    <CodingWorkbench transcription={transcription} />
+                  </TabsContent>
+                </Tabs>
+              </>
             ) : transcription.transcriptionText ? (
               <div className="space-y-4">
                 {isFullEditMode ? (
@@ -938,6 +1653,15 @@ export default function TranscriptionDetailPage() {
           </CardContent>
         </Card>
 
+        {transcription.status === "completed" && (
+          <RevisionHistory
+            transcriptionId={id}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onRestore={(revisionId) => restoreMutation.mutate(revisionId)}
+            isRestoring={restoreMutation.isPending}
+          />
+        )}
+
         {hasUnsavedChanges && (
           <div className="fixed bottom-6 right-6 z-50">
             <Card className="bg-primary text-primary-foreground shadow-lg">
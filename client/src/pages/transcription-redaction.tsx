@@ -0,0 +1,496 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  FileAudio,
+  ArrowLeft,
+  Sparkles,
+  LogOut,
+  CreditCard,
+  Loader2,
+  ShieldCheck,
+  ScanSearch,
+  Save,
+  Plus,
+  Download,
+  FileText,
+  AlertTriangle,
+} from "lucide-react";
+import { PSEUDONYM_PREFIXES, nextPseudonymNumber } from "@shared/schema";
+import type { Transcription, RedactionProposal, RedactionEntityType } from "@shared/schema";
+
+const ENTITY_TYPE_LABELS: Record<RedactionEntityType, string> = {
+  name: "Nome",
+  place: "Local",
+  organization: "Organização",
+  cpf: "CPF",
+  phone: "Telefone",
+  email: "E-mail",
+};
+
+const SOURCE_LABELS: Record<RedactionProposal["source"], string> = {
+  pattern: "Padrão",
+  model: "IA",
+  manual: "Manual",
+};
+
+export default function TranscriptionRedactionPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [proposals, setProposals] = useState<RedactionProposal[]>([]);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [manualTerm, setManualTerm] = useState("");
+  const [manualType, setManualType] = useState<RedactionEntityType>("name");
+
+  const { data: transcription, isLoading } = useQuery<Transcription>({
+    queryKey: ["/api/transcriptions", id],
+    refetchInterval: (query) => {
+      const data = query.state.data as Transcription | undefined;
+      return data?.redaction?.status === "processing" ? 3000 : false;
+    },
+  });
+
+  const redaction = transcription?.redaction;
+
+  // Reload the proposals whenever the server has a new set, unless the user is mid-review
+  useEffect(() => {
+    if (redaction && redaction.status !== "processing" && !hasUnsavedChanges) {
+      setProposals(redaction.proposals);
+    }
+  }, [redaction?.updatedAt]);
+
+  const getInitials = (firstName?: string | null, lastName?: string | null) => {
+    const first = firstName?.charAt(0) || "";
+    const last = lastName?.charAt(0) || "";
+    return (first + last).toUpperCase() || "U";
+  };
+
+  const detectMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/transcriptions/${id}/redaction`);
+    },
+    onSuccess: () => {
+      setHasUnsavedChanges(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions", id] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro na detecção",
+        description: "Não foi possível iniciar a detecção de dados pessoais.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RedactionProposal[]) => {
+      return apiRequest("PUT", `/api/transcriptions/${id}/redaction`, { proposals: data });
+    },
+    onSuccess: () => {
+      setHasUnsavedChanges(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions", id] });
+      toast({
+        title: "Versão anonimizada salva",
+        description: "As substituições aceitas foram aplicadas à transcrição.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao salvar",
+        description: "Não foi possível salvar a versão anonimizada.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateProposal = (proposalId: string, changes: Partial<RedactionProposal>) => {
+    setProposals((prev) => prev.map((p) => (p.id === proposalId ? { ...p, ...changes } : p)));
+    setHasUnsavedChanges(true);
+  };
+
+  const addManualTerm = () => {
+    const original = manualTerm.trim();
+    if (!original) return;
+    if (proposals.some((p) => p.original.toLowerCase() === original.toLowerCase())) {
+      toast({
+        title: "Termo já listado",
+        description: `"${original}" já está entre as substituições.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const number = nextPseudonymNumber(manualType, proposals);
+    setProposals((prev) => [
+      ...prev,
+      {
+        id: `manual-${Date.now()}`,
+        type: manualType,
+        original,
+        replacement: `[${PSEUDONYM_PREFIXES[manualType]} ${number}]`,
+        occurrences: 0, // counted by the server on save
+        source: "manual",
+        accepted: true,
+      },
+    ]);
+    setManualTerm("");
+    setHasUnsavedChanges(true);
+  };
+
+  const downloadRedacted = async (format: "txt" | "docx") => {
+    if (!transcription) return;
+    try {
+      const response = await fetch(`/api/transcriptions/${id}/download?format=${format}&version=redacted`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Download failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      // The server names the file after the redacted title; the original title may hold the participant's name
+      const serverName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1];
+      a.download = serverName || `transcricao-${id}-anonimizada.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: "Erro no download",
+        description: "Não foi possível baixar a versão anonimizada.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+          <div className="max-w-7xl mx-auto px-6 h-16 flex items-center">
+            <Skeleton className="h-8 w-48" />
+          </div>
+        </header>
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          <Skeleton className="h-8 w-64 mb-4" />
+          <div className="grid lg:grid-cols-2 gap-6">
+            <Skeleton className="h-96" />
+            <Skeleton className="h-96" />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!transcription) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <FileAudio className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Transcrição não encontrada</h2>
+            <p className="text-muted-foreground mb-4">
+              A transcrição solicitada não existe ou foi removida.
+            </p>
+            <Button asChild>
+              <Link href="/transcricoes">Voltar para Transcrições</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isProcessing = redaction?.status === "processing" || detectMutation.isPending;
+  const acceptedCount = proposals.filter((p) => p.accepted).length;
+  const hasRedactedVersion = redaction?.status === "applied" && !!redaction.redactedText;
+  // The transcript was edited since; exports stay blocked until the proposals are saved again
+  const isStale = hasRedactedVersion && !!redaction.stale;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href={`/transcricoes/${id}`}>
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Link href="/" className="flex items-center gap-2">
+              <FileAudio className="h-8 w-8 text-primary" />
+              <span className="text-xl font-bold hidden sm:inline">IA Transcreve</span>
+            </Link>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/creditos">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                <span className="font-semibold">{user?.credits || 0}</span>
+              </Button>
+            </Link>
+            <ThemeToggle />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="relative h-9 w-9 rounded-full">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={user?.profileImageUrl || undefined} className="object-cover" />
+                    <AvatarFallback>{getInitials(user?.firstName, user?.lastName)}</AvatarFallback>
+                  </Avatar>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56" align="end" forceMount>
+                <DropdownMenuLabel className="font-normal">
+                  <div className="flex flex-col space-y-1">
+                    <p className="text-sm font-medium">{user?.firstName} {user?.lastName}</p>
+                    <p className="text-xs text-muted-foreground">{user?.email}</p>
+                  </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/creditos" className="cursor-pointer">
+                    <CreditCard className="mr-2 h-4 w-4" />
+                    Meus Créditos
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <a href="/api/logout" className="cursor-pointer text-destructive">
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Sair
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <ShieldCheck className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-bold" data-testid="text-title">Anonimização</h1>
+            </div>
+            <p className="text-sm text-muted-foreground">{transcription.title}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => detectMutation.mutate()}
+              disabled={isProcessing || transcription.status !== "completed"}
+              data-testid="button-detect"
+            >
+              {isProcessing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ScanSearch className="mr-2 h-4 w-4" />
+              )}
+              {redaction ? "Detectar novamente" : "Detectar dados pessoais"}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(proposals)}
+              disabled={isProcessing || saveMutation.isPending || proposals.length === 0}
+              data-testid="button-save-redaction"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar versão anonimizada
+            </Button>
+          </div>
+        </div>
+
+        {isStale && (
+          <Card className="border-destructive">
+            <CardContent className="flex items-center gap-3 py-4 text-sm" data-testid="text-redaction-stale">
+              <AlertTriangle className="h-5 w-5 text-destructive shrink-0" />
+              <span>
+                A transcrição foi alterada depois da anonimização. Detecte novamente ou revise e salve as
+                substituições para atualizar a versão anonimizada antes de baixá-la.
+              </span>
+            </CardContent>
+          </Card>
+        )}
+
+        {redaction?.status === "error" && (
+          <Card className="border-destructive">
+            <CardContent className="flex items-center gap-3 py-4 text-sm">
+              <AlertTriangle className="h-5 w-5 text-destructive shrink-0" />
+              <span>Erro na detecção: {redaction.error || "tente novamente."}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Substituições propostas</CardTitle>
+              <CardDescription>
+                {proposals.length > 0
+                  ? `${acceptedCount} de ${proposals.length} termos serão substituídos. Revise antes de salvar.`
+                  : "Detecte nomes, locais, organizações, CPFs, telefones e e-mails para revisar as substituições."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isProcessing && proposals.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <Loader2 className="h-8 w-8 animate-spin mb-3" />
+                  <p>Procurando dados pessoais na transcrição...</p>
+                </div>
+              ) : (
+                <ScrollArea className="h-[420px] pr-4">
+                  <div className="space-y-3">
+                    {proposals.map((proposal) => (
+                      <div
+                        key={proposal.id}
+                        className="flex items-center gap-3 rounded-md border p-3"
+                        data-testid={`proposal-${proposal.id}`}
+                      >
+                        <Checkbox
+                          checked={proposal.accepted}
+                          onCheckedChange={(checked) => updateProposal(proposal.id, { accepted: checked === true })}
+                          data-testid={`checkbox-accept-${proposal.id}`}
+                        />
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className={`font-medium truncate ${proposal.accepted ? "" : "text-muted-foreground line-through"}`}>
+                              {proposal.original}
+                            </span>
+                            <Badge variant="outline">{ENTITY_TYPE_LABELS[proposal.type]}</Badge>
+                            <Badge variant="secondary">{SOURCE_LABELS[proposal.source]}</Badge>
+                            {proposal.source !== "manual" && (
+                              <span className="text-xs text-muted-foreground">
+                                {proposal.occurrences} {proposal.occurrences === 1 ? "ocorrência" : "ocorrências"}
+                              </span>
+                            )}
+                          </div>
+                          <Input
+                            value={proposal.replacement}
+                            onChange={(e) => updateProposal(proposal.id, { replacement: e.target.value })}
+                            disabled={!proposal.accepted}
+                            data-testid={`input-replacement-${proposal.id}`}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    {proposals.length === 0 && redaction && !isProcessing && (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        Nenhum dado pessoal encontrado.
+                      </p>
+                    )}
+                  </div>
+                </ScrollArea>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-2 border-t pt-4">
+                <Input
+                  placeholder="Adicionar termo manualmente"
+                  value={manualTerm}
+                  onChange={(e) => setManualTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addManualTerm()}
+                  data-testid="input-manual-term"
+                />
+                <Select value={manualType} onValueChange={(value) => setManualType(value as RedactionEntityType)}>
+                  <SelectTrigger className="sm:w-40" data-testid="select-manual-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ENTITY_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={addManualTerm} disabled={!manualTerm.trim()} data-testid="button-add-term">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Versão anonimizada</CardTitle>
+                <CardDescription>
+                  {hasRedactedVersion
+                    ? hasUnsavedChanges
+                      ? "Há alterações não salvas; salve para atualizar esta versão."
+                      : "A transcrição original permanece inalterada."
+                    : "Salve as substituições para gerar a versão anonimizada."}
+                </CardDescription>
+              </div>
+              {hasRedactedVersion && !isStale && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" data-testid="button-download-redacted">
+                      <Download className="mr-2 h-4 w-4" />
+                      Baixar
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onClick={() => downloadRedacted("txt")} data-testid="button-download-redacted-txt">
+                      <FileText className="mr-2 h-4 w-4" />
+                      Formato TXT
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadRedacted("docx")} data-testid="button-download-redacted-docx">
+                      <FileText className="mr-2 h-4 w-4" />
+                      Formato DOCX
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[480px] pr-4">
+                {hasRedactedVersion ? (
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed" data-testid="text-redacted">
+                    {redaction!.redactedText}
+                  </p>
+                ) : (
+                  <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+                    <ShieldCheck className="h-12 w-12 mb-4" />
+                    <p>Nenhuma versão anonimizada salva.</p>
+                  </div>
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatTimestamp } from "@/lib/format";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -42,19 +43,43 @@ import {
   Download,
   MoreVertical,
   Brain,
+  Quote,
 } from "lucide-react";
-import { Link } from "wouter";
-import type { Transcription } from "@shared/schema";
+import { Link, useSearch } from "wouter";
+import { ProjectFilter, MoveToProjectMenu, matchesProjectFilter } from "@/components/project-controls";
+import type { Transcription, TranscriptSearchHit, Project } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function TranscriptionsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const searchParams = useSearch();
+  const [projectFilter, setProjectFilter] = useState(
+    () => new URLSearchParams(searchParams).get("projeto") || "all"
+  );
 
   const { data: transcriptions, isLoading } = useQuery<Transcription[]>({
     queryKey: ["/api/transcriptions"],
   });
 
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Passages inside the transcripts; the list below only filters by title
+  const { data: searchHits, isFetching: isSearching } = useQuery<TranscriptSearchHit[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length >= 2,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/transcriptions/${id}`);
@@ -74,10 +99,31 @@ export default function TranscriptionsPage() {
 
   const filteredTranscriptions = transcriptions?.filter(
     (t) =>
-      t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      t.transcriptionText?.toLowerCase().includes(searchQuery.toLowerCase())
+      t.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
+      matchesProjectFilter(t.projectId, projectFilter)
   );
 
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, projectId }: { id: number; projectId: number | null }) => {
+      await apiRequest("PUT", `/api/transcriptions/${id}`, { projectId });
+    },
+    onSuccess: () => {
+      toast({ title: "Transcrição movida" });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao mover",
+        description: "Não foi possível mover a transcrição.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getInitials = (firstName?: string | null, lastName?: string | null) => {
     const first = firstName?.charAt(0) || "";
     const last = lastName?.charAt(0) || "";
@@ -107,6 +153,8 @@ export default function TranscriptionsPage() {
         return <Badge variant="secondary">Processando</Badge>;
       case "pending":
         return <Badge variant="outline">Pendente</Badge>;
+      case "partial":
+        return <Badge variant="outline" className="border-amber-500 text-amber-600">Incompleta</Badge>;
       case "error":
         return <Badge variant="destructive">Erro</Badge>;
       default:
@@ -152,6 +200,9 @@ export default function TranscriptionsPage() {
               <Button variant="ghost" asChild>
                 <Link href="/">Dashboard</Link>
               </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/projetos">Projetos</Link>
+              </Button>
               <Button variant="secondary" asChild>
                 <Link href="/transcricoes">Transcrições</Link>
               </Button>
@@ -220,17 +271,65 @@ export default function TranscriptionsPage() {
           </Button>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar transcrições..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-            data-testid="input-search"
-          />
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por título ou trecho das transcrições..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+              data-testid="input-search"
+            />
+          </div>
+          <ProjectFilter projects={projects} value={projectFilter} onChange={setProjectFilter} />
         </div>
 
+        {searchQuery.trim().length >= 2 && (searchHits?.length || 0) > 0 && (
+          <Card data-testid="card-search-hits">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Quote className="h-4 w-4" />
+                Trechos encontrados
+              </CardTitle>
+              <CardDescription>
+                {searchHits!.length} {searchHits!.length === 1 ? "trecho" : "trechos"} com "{debouncedQuery}"
+                {isSearching && " — atualizando..."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {searchHits!.map((hit) => (
+                <Link
+                  key={`${hit.transcriptionId}-${hit.segmentIndex ?? "text"}`}
+                  href={`/transcricoes/${hit.transcriptionId}${hit.start !== null ? `?t=${hit.start}` : ""}`}
+                  className="block rounded-md border p-3 hover-elevate cursor-pointer"
+                  data-testid={`search-hit-${hit.transcriptionId}-${hit.segmentIndex ?? "text"}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-sm mb-1">
+                    <span className="font-medium">{hit.title}</span>
+                    {hit.start !== null && (
+                      <Badge variant="outline" className="font-mono text-xs">
+                        <Clock className="mr-1 h-3 w-3" />
+                        {formatTimestamp(hit.start)}
+                      </Badge>
+                    )}
+                    {hit.speaker && <span className="text-xs text-muted-foreground">{hit.speaker}</span>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {hit.snippet.map((part, i) =>
+                      part.highlight ? (
+                        <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                      ) : (
+                        <span key={i}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="grid gap-4">
             {[1, 2, 3].map((i) => (
@@ -265,6 +364,9 @@ export default function TranscriptionsPage() {
                       {transcription.wordCount && (
                         <span>{transcription.wordCount.toLocaleString()} palavras</span>
                       )}
+                      {transcription.projectId !== null && projectNames.has(transcription.projectId) && (
+                        <Badge variant="outline" className="text-xs">{projectNames.get(transcription.projectId)}</Badge>
+                      )}
                     </div>
                   </Link>
                   <div className="flex items-center gap-2 flex-shrink-0">
@@ -300,6 +402,12 @@ export default function TranscriptionsPage() {
                             <DropdownMenuSeparator />
                           </>
                         )}
+                        <MoveToProjectMenu
+                          projects={projects}
+                          currentProjectId={transcription.projectId}
+                          onMove={(projectId) => moveMutation.mutate({ id: transcription.id, projectId })}
+                        />
+                        <DropdownMenuSeparator />
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <DropdownMenuItem
@@ -340,14 +448,14 @@ export default function TranscriptionsPage() {
             <CardContent className="text-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">
-                {searchQuery ? "Nenhuma transcrição encontrada" : "Nenhuma transcrição ainda"}
+                {searchQuery || projectFilter !== "all" ? "Nenhuma transcrição encontrada" : "Nenhuma transcrição ainda"}
               </h3>
               <p className="text-muted-foreground mb-4">
-                {searchQuery
-                  ? "Tente uma busca diferente"
+                {searchQuery || projectFilter !== "all"
+                  ? "Tente uma busca ou um projeto diferente"
                   : "Comece enviando seu primeiro arquivo de áudio"}
               </p>
-              {!searchQuery && (
+              {!searchQuery && projectFilter === "all" && (
                 <Button asChild>
                   <Link href="/upload">
                     <Plus className="mr-2 h-4 w-4" />
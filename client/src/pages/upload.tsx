@@ -1,7 +1,7 @@
 import { useState, useCallback } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,6 +9,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -30,6 +37,7 @@ import {
   CheckCircle,
 } from "lucide-react";
 import { Link } from "wouter";
+import { TRANSCRIPTION_LANGUAGES, type TranscriptionLanguage, type Project } from "@shared/schema";
 
 const MAX_FREE_SIZE = 10 * 1024 * 1024; // 10MB
 const ACCEPTED_FORMATS = [
@@ -46,9 +54,19 @@ export default function UploadPage() {
   const [, setLocation] = useLocation();
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
+  const [language, setLanguage] = useState<TranscriptionLanguage>("pt");
+  const searchParams = useSearch();
+  // "none" or a project id; preselected when arriving from a project page
+  const [projectId, setProjectId] = useState(
+    () => new URLSearchParams(searchParams).get("projeto") || "none"
+  );
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
 
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
   const canUseFreeTrial = !user?.freeTranscriptionUsed;
   const hasCredits = (user?.credits || 0) > 0;
   const canTranscribe = canUseFreeTrial || hasCredits;
@@ -111,6 +129,7 @@ export default function UploadPage() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       setLocation(`/transcricoes/${data.id}`);
       setUploadProgress(0);
     },
@@ -186,6 +205,8 @@ export default function UploadPage() {
     const formData = new FormData();
     formData.append("audio", file);
     formData.append("title", title.trim());
+    formData.append("language", language);
+    if (projectId !== "none") formData.append("projectId", projectId);
 
     uploadMutation.mutate(formData);
   };
@@ -208,6 +229,9 @@ export default function UploadPage() {
               <Button variant="ghost" asChild>
                 <Link href="/">Dashboard</Link>
               </Button>
+              <Button variant="ghost" asChild>
+                <Link href="/projetos">Projetos</Link>
+              </Button>
               <Button variant="ghost" asChild>
                 <Link href="/transcricoes">Transcrições</Link>
               </Button>
@@ -393,6 +417,49 @@ export default function UploadPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="language">Idioma do Áudio</Label>
+                <Select
+                  value={language}
+                  onValueChange={(value) => setLanguage(value as TranscriptionLanguage)}
+                  disabled={uploadMutation.isPending}
+                >
+                  <SelectTrigger id="language" data-testid="select-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSCRIPTION_LANGUAGES.map((option) => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {projects.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="project">Projeto</Label>
+                  <Select
+                    value={projectId}
+                    onValueChange={setProjectId}
+                    disabled={uploadMutation.isPending}
+                  >
+                    <SelectTrigger id="project" data-testid="select-project">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sem projeto</SelectItem>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id.toString()}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {canUseFreeTrial && (
                 <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
                   <CheckCircle className="h-4 w-4 text-green-600" />
@@ -0,0 +1,34 @@
+#!/usr/bin/env python3
+"""Speaker diarization for the transcription worker (DIARIZATION_PROVIDER=pyannote).
+
+Usage: python3 script/diarize.py <audio.wav>
+
+Prints RTTM to stdout. Requires `pip install pyannote.audio` and a Hugging Face
+token with access to the model in HF_TOKEN. PYANNOTE_MODEL overrides the pipeline,
+and DIARIZATION_NUM_SPEAKERS fixes the number of speakers when it is known.
+"""
+import os
+import sys
+
+from pyannote.audio import Pipeline
+
+
+def main() -> None:
+    if len(sys.argv) < 2:
+        sys.exit("usage: diarize.py <audio.wav>")
+
+    pipeline = Pipeline.from_pretrained(
+        os.environ.get("PYANNOTE_MODEL", "pyannote/speaker-diarization-3.1"),
+        use_auth_token=os.environ.get("HF_TOKEN"),
+    )
+
+    options = {}
+    if os.environ.get("DIARIZATION_NUM_SPEAKERS"):
+        options["num_speakers"] = int(os.environ["DIARIZATION_NUM_SPEAKERS"])
+
+    diarization = pipeline(sys.argv[1], **options)
+    diarization.write_rttm(sys.stdout)
+
+
+if __name__ == "__main__":
+    main()
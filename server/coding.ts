@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { proposeCodings } from "./openai";
+import { findPassage } from "./quotes";
+import type { Code, Coding, InsertCoding, Transcription, TranscriptionSegment } from "@shared/schema";
+
+function overlaps(a: { offsetStart: number; offsetEnd: number }, b: { offsetStart: number; offsetEnd: number }): boolean {
+  return a.offsetStart < b.offsetEnd && b.offsetStart < a.offsetEnd;
+}
+
+// Asks the model where the project's codes apply and returns the suggestions as proposed codings.
+// Suggestions naming a code outside the codebook, or quoting text the segment does not contain, are
+// dropped, as are passages already coded (or rejected) with the same code.
+export async function suggestCodings(
+  transcription: Transcription,
+  codebook: Code[],
+  existing: Coding[],
+  userId: string
+): Promise<InsertCoding[]> {
+  const segments = transcription.segments || [];
+  const language = transcription.detectedLanguage ||
+    (transcription.language !== "auto" ? transcription.language : "pt");
+
+  const suggestions = await proposeCodings(
+    segments,
+    codebook.map((code) => ({
+      name: code.name,
+      definition: code.definition,
+      category: codebook.find((parent) => parent.id === code.parentId)?.name,
+    })),
+    language
+  );
+
+  const codesByName = new Map(codebook.map((code) => [code.name.trim().toLowerCase(), code]));
+  const proposals: InsertCoding[] = [];
+
+  for (const suggestion of suggestions) {
+    const code = codesByName.get(suggestion.code.toLowerCase());
+    const segment = segments[suggestion.segmentIndex];
+    if (!code || !segment) continue;
+
+    const passage = findPassage(segment.text, suggestion.excerpt);
+    if (!passage) continue;
+
+    const proposal: InsertCoding = {
+      transcriptionId: transcription.id,
+      codeId: code.id,
+      userId,
+      segmentIndex: suggestion.segmentIndex,
+      offsetStart: passage.start,
+      offsetEnd: passage.end,
+      text: segment.text.slice(passage.start, passage.end),
+      origin: "ai",
+      status: "proposed",
+      rationale: suggestion.rationale || null,
+    };
+    const duplicate = [...existing, ...proposals].some((c) =>
+      c.codeId === proposal.codeId && c.segmentIndex === proposal.segmentIndex && overlaps(c, proposal)
+    );
+    if (!duplicate) proposals.push(proposal);
+  }
+
+  return proposals;
+}
+
+// Segment indexes ordered by distance from the given one, that one first
+function nearestSegments(from: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i)
+    .sort((a, b) => Math.abs(a - from) - Math.abs(b - from) || a - b);
+}
+
+function reanchorCoding(coding: Coding, segments: TranscriptionSegment[]): Partial<Coding> | undefined {
+  if (segments[coding.segmentIndex]?.text.slice(coding.offsetStart, coding.offsetEnd) === coding.text) {
+    return coding.stale ? { stale: false } : undefined;
+  }
+  for (const index of nearestSegments(coding.segmentIndex, segments.length)) {
+    const passage = findPassage(segments[index].text, coding.text);
+    if (passage) {
+      return {
+        segmentIndex: index,
+        offsetStart: passage.start,
+        offsetEnd: passage.end,
+        text: segments[index].text.slice(passage.start, passage.end),
+        stale: false,
+      };
+    }
+  }
+  return coding.stale ? undefined : { stale: true };
+}
+
+// Edits, restores and re-transcriptions rewrite the segments, so each coding is looked up again by its
+// text, nearest segments first. One whose passage is gone is marked stale rather than left pointing at
+// other words; it is re-anchored if a later version brings the passage back.
+export async function reanchorCodings(transcription: Transcription): Promise<void> {
+  const segments = transcription.segments || [];
+  for (const coding of await storage.getCodingsByTranscription(transcription.id)) {
+    const updates = reanchorCoding(coding, segments);
+    if (updates) await storage.updateCoding(coding.id, updates);
+  }
+}
@@ -0,0 +1,132 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { TranscriptionSegment } from "@shared/schema";
+
+const execAsync = promisify(exec);
+
+// A hung command would hold the transcription job forever, so it is killed after this long and the
+// speakers are identified from the text instead
+const DIARIZATION_TIMEOUT_MS = positiveIntegerEnv("DIARIZATION_TIMEOUT_MS", 30 * 60 * 1000);
+
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`Ignoring invalid ${name}=${raw}; using ${fallback}`);
+  return fallback;
+}
+
+// Speaker turn from acoustic diarization; speaker is an anonymous cluster id such as "SPEAKER_00"
+export type DiarizationTurn = {
+  start: number;
+  end: number;
+  speaker: string;
+};
+
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(wavPath: string): Promise<DiarizationTurn[]>;
+}
+
+// Parses RTTM, the output format shared by pyannote and most diarization toolkits:
+// SPEAKER <file> <channel> <start> <duration> <NA> <NA> <speaker> <NA> <NA>
+export function parseRttm(rttm: string): DiarizationTurn[] {
+  const turns: DiarizationTurn[] = [];
+  for (const line of rttm.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== "SPEAKER" || fields.length < 10) continue;
+    // Counted from the end, since the file id is taken from the file name and may contain spaces
+    const tail = fields.slice(-8);
+    const start = parseFloat(tail[1]);
+    const duration = parseFloat(tail[2]);
+    if (isNaN(start) || isNaN(duration)) continue;
+    turns.push({ start, end: start + duration, speaker: tail[5] });
+  }
+  return turns.sort((a, b) => a.start - b.start);
+}
+
+// Runs a diarization command as a subprocess; it receives the WAV path as its last
+// argument and must print RTTM to stdout. The default is script/diarize.py (pyannote).
+export class CommandDiarizationProvider implements DiarizationProvider {
+  constructor(
+    readonly name: string,
+    private readonly command: string,
+  ) {}
+
+  async diarize(wavPath: string): Promise<DiarizationTurn[]> {
+    const { stdout } = await execAsync(`${this.command} "${wavPath}"`, {
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: DIARIZATION_TIMEOUT_MS,
+    });
+    return parseRttm(stdout);
+  }
+}
+
+function createDiarizationProvider(): DiarizationProvider | null {
+  const providerName = process.env.DIARIZATION_PROVIDER || "none";
+
+  switch (providerName) {
+    case "none":
+      return null;
+    case "pyannote":
+      return new CommandDiarizationProvider(
+        "pyannote",
+        process.env.DIARIZATION_COMMAND || "python3 script/diarize.py",
+      );
+    case "command": {
+      const command = process.env.DIARIZATION_COMMAND;
+      if (!command) {
+        throw new Error("DIARIZATION_COMMAND must be set when DIARIZATION_PROVIDER=command");
+      }
+      return new CommandDiarizationProvider("command", command);
+    }
+    default:
+      throw new Error(`Unknown DIARIZATION_PROVIDER: ${providerName}`);
+  }
+}
+
+let diarizationProvider: DiarizationProvider | null | undefined;
+
+// Returns null when diarization is disabled; speakers are then guessed from the text alone
+export function getDiarizationProvider(): DiarizationProvider | null {
+  if (diarizationProvider === undefined) {
+    diarizationProvider = createDiarizationProvider();
+  }
+  return diarizationProvider;
+}
+
+// Gives each segment the cluster it overlaps most; segments falling in a gap between
+// turns (Whisper and the diarizer disagree on silences) take the nearest turn
+export function assignSpeakerTurns(segments: TranscriptionSegment[], turns: DiarizationTurn[]): TranscriptionSegment[] {
+  if (turns.length === 0) return segments;
+
+  return segments.map((segment) => {
+    const overlaps = new Map<string, number>();
+    for (const turn of turns) {
+      if (turn.start >= segment.end) break;
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlaps.set(turn.speaker, (overlaps.get(turn.speaker) || 0) + overlap);
+      }
+    }
+
+    let speaker: string | undefined;
+    let best = 0;
+    overlaps.forEach((overlap, cluster) => {
+      if (overlap > best) {
+        best = overlap;
+        speaker = cluster;
+      }
+    });
+
+    if (!speaker) {
+      const middle = (segment.start + segment.end) / 2;
+      const distance = (turn: DiarizationTurn) =>
+        middle < turn.start ? turn.start - middle : Math.max(0, middle - turn.end);
+      speaker = turns.reduce((nearest, turn) => (distance(turn) < distance(nearest) ? turn : nearest)).speaker;
+    }
+
+    return { ...segment, speaker };
+  });
+}
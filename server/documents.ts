@@ -0,0 +1,322 @@
+import fs from "fs";
+import JSZip from "jszip";
+
+// Words per page when a document carries no page count of its own (pasted or plain text)
+export const WORDS_PER_PAGE = 250;
+
+// A PDF page with fewer printable characters than this is treated as having no text layer
+const MIN_PAGE_TEXT_CHARS = 20;
+
+export type ExtractedDocument = {
+  text: string;
+  pages: number;
+};
+
+type DocumentFormat = "pdf" | "docx" | "odt" | "rtf" | "txt";
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".odt": "odt",
+  ".rtf": "rtf",
+  ".txt": "txt",
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "text/plain": "txt",
+};
+
+export const DOCUMENT_MIME_TYPES = Object.keys(FORMAT_BY_MIME_TYPE);
+export const DOCUMENT_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function estimatePages(text: string): number {
+  return Math.ceil(countWords(text) / WORDS_PER_PAGE);
+}
+
+function detectFormat(fileName: string, mimeType: string): DocumentFormat | undefined {
+  const ext = "." + (fileName.split(".").pop()?.toLowerCase() || "");
+  return FORMAT_BY_EXTENSION[ext] || FORMAT_BY_MIME_TYPE[mimeType];
+}
+
+// Extracts the text of an uploaded document with its real page count where the format records one.
+// Errors are returned as messages for the user rather than thrown.
+export async function extractDocumentText(
+  filePath: string,
+  fileName: string,
+  mimeType: string
+): Promise<ExtractedDocument | { error: string }> {
+  const format = detectFormat(fileName, mimeType);
+  if (!format) {
+    return { error: "Formato de arquivo não suportado. Envie um arquivo PDF, DOCX, ODT, RTF ou TXT." };
+  }
+
+  let extracted: ExtractedDocument | { error: string };
+  try {
+    const buffer = await fs.promises.readFile(filePath);
+    switch (format) {
+      case "pdf":
+        extracted = await extractPdf(buffer);
+        break;
+      case "docx":
+        extracted = await extractDocx(buffer);
+        break;
+      case "odt":
+        extracted = await extractOdt(buffer);
+        break;
+      case "rtf":
+        extracted = extractRtf(buffer.toString("latin1"));
+        break;
+      case "txt": {
+        const text = buffer.toString("utf-8");
+        extracted = { text, pages: estimatePages(text) };
+        break;
+      }
+    }
+  } catch (error: any) {
+    console.error(`Error extracting text from ${fileName}:`, error.message);
+    return { error: `Não foi possível ler o arquivo "${fileName}". Verifique se ele não está corrompido ou protegido por senha.` };
+  }
+
+  if ("text" in extracted) {
+    const text = extracted.text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+    if (!text) {
+      return { error: `O arquivo "${fileName}" não contém texto.` };
+    }
+    return { text, pages: Math.max(extracted.pages, 1) };
+  }
+  return extracted;
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument | { error: string }> {
+  // pdfjs-dist only ships ES modules
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      let text = "";
+      for (const item of content.items) {
+        if ("str" in item) {
+          text += item.str + (item.hasEOL ? "\n" : "");
+        }
+      }
+      pages.push(text);
+      page.cleanup();
+    }
+
+    // Scanned documents are images; at most a header or page number has a text layer
+    const pagesWithText = pages.filter((p) => p.replace(/\s/g, "").length >= MIN_PAGE_TEXT_CHARS).length;
+    if (pagesWithText < pdf.numPages / 2) {
+      return {
+        error: "Este PDF parece ser digitalizado (as páginas são imagens, sem texto selecionável). " +
+          "Envie uma versão com texto ou aplique OCR antes de enviar.",
+      };
+    }
+
+    return { text: pages.join("\n\n"), pages: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "amp": return "&";
+      case "lt": return "<";
+      case "gt": return ">";
+      case "quot": return "\"";
+      case "apos": return "'";
+    }
+    const codePoint = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+async function readZipEntry(zip: JSZip, name: string): Promise<string | undefined> {
+  return zip.file(name)?.async("string");
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await readZipEntry(zip, "word/document.xml");
+  if (xml === undefined) throw new Error("word/document.xml missing");
+
+  const body = xml
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(?:br|cr)\b[^>]*\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    // Deleted tracked changes and field instructions are not part of the visible text
+    .replace(/<w:delText\b[^>]*>[\s\S]*?<\/w:delText>/g, "")
+    .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, "")
+    .replace(/<[^>]+>/g, "");
+  const text = decodeXmlEntities(body);
+
+  // Word stores the page count it last rendered; page breaks it recorded are the next best thing
+  const appXml = await readZipEntry(zip, "docProps/app.xml");
+  const statedPages = parseInt(appXml?.match(/<Pages>(\d+)<\/Pages>/)?.[1] || "", 10);
+  const renderedBreaks = (xml.match(/<w:lastRenderedPageBreak\/>|<w:br\b[^>]*w:type="page"[^>]*\/>/g) || []).length;
+  const pages = statedPages > 0
+    ? statedPages
+    : renderedBreaks > 0 ? renderedBreaks + 1 : estimatePages(text);
+
+  return { text, pages };
+}
+
+async function extractOdt(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await readZipEntry(zip, "content.xml");
+  if (xml === undefined) throw new Error("content.xml missing");
+
+  const body = xml
+    .replace(/<text:tab\/>/g, "\t")
+    .replace(/<text:line-break\/>/g, "\n")
+    .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, n: string) => " ".repeat(parseInt(n, 10)))
+    .replace(/<text:s\/>/g, " ")
+    .replace(/<\/text:(?:p|h)>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+  const text = decodeXmlEntities(body);
+
+  const metaXml = await readZipEntry(zip, "meta.xml");
+  const statedPages = parseInt(metaXml?.match(/meta:page-count="(\d+)"/)?.[1] || "", 10);
+
+  return { text, pages: statedPages > 0 ? statedPages : estimatePages(text) };
+}
+
+// Groups whose content is never document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer", "headerl", "headerr",
+  "footerl", "footerr", "headerf", "footerf", "listtable", "listoverridetable", "rsidtbl", "xmlnstbl",
+  "generator", "themedata", "colorschememapping", "latentstyles", "datastore", "object", "fldinst",
+]);
+
+// \'hh escapes are Windows-1252 bytes; only 0x80-0x9F differ from Latin-1
+const CP1252_80_9F =
+  "\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F" +
+  "\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178";
+
+function decodeCp1252(byte: number): string {
+  return byte >= 0x80 && byte <= 0x9f ? CP1252_80_9F[byte - 0x80] : String.fromCharCode(byte);
+}
+
+// Minimal RTF reader: keeps the text of the body and maps paragraph, line, tab and page controls
+function extractRtf(rtf: string): ExtractedDocument {
+  if (!rtf.startsWith("{\\rtf")) throw new Error("not an RTF document");
+
+  let text = "";
+  let explicitPageBreaks = 0;
+  // Per group: whether its content is skipped, and how many characters follow a \uN as its fallback
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingFallback = 0;
+  let i = 0;
+
+  const emit = (s: string) => {
+    if (!skip) text += s;
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch === "{") {
+      stack.push({ skip, unicodeSkip });
+      i++;
+      // {\*\destination ...} is an optional destination a reader may ignore
+      if (rtf.startsWith("\\*", i)) skip = true;
+      continue;
+    }
+    if (ch === "}") {
+      const state = stack.pop();
+      if (state) {
+        skip = state.skip;
+        unicodeSkip = state.unicodeSkip;
+      }
+      pendingFallback = 0;
+      i++;
+      continue;
+    }
+    if (ch === "\\") {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (pendingFallback > 0) {
+          pendingFallback--;
+        } else if (Number.isFinite(byte)) {
+          emit(decodeCp1252(byte));
+        }
+        continue;
+      }
+      if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+        continue;
+      }
+      if (next === "~") {
+        emit(" ");
+        i += 2;
+        continue;
+      }
+      const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+      if (!match) {
+        i += 2;
+        continue;
+      }
+      i += 1 + match[0].length;
+      const word = match[1];
+      const param = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === "par" || word === "line" || word === "sect") {
+        emit("\n");
+      } else if (word === "tab") {
+        emit("\t");
+      } else if (word === "page") {
+        if (!skip) explicitPageBreaks++;
+        emit("\n");
+      } else if (word === "uc" && param !== undefined) {
+        unicodeSkip = param;
+      } else if (word === "u" && param !== undefined) {
+        emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pendingFallback = unicodeSkip;
+      }
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i++;
+      continue;
+    }
+    if (pendingFallback > 0) {
+      pendingFallback--;
+    } else {
+      emit(ch);
+    }
+    i++;
+  }
+
+  // \nofpages in the info group is the page count stored by the editor that saved the file
+  const statedPages = parseInt(rtf.match(/\\nofpages(\d+)/)?.[1] || "", 10);
+  const pages = statedPages > 0
+    ? statedPages
+    : explicitPageBreaks > 0 ? explicitPageBreaks + 1 : estimatePages(text);
+
+  return { text, pages };
+}
@@ -0,0 +1,224 @@
+import { Document, Packer, Paragraph, TextRun, HeadingLevel } from "docx";
+import PDFDocument from "pdfkit";
+import type { Analysis, AnalysisQuote, GridCategory, Transcription, TranscriptionSegment, UnclassifiedUnit } from "@shared/schema";
+
+export function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+function formatDuration(seconds: number | null | undefined): string {
+  if (!seconds) return "-";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins >= 60) {
+    const hours = Math.floor(mins / 60);
+    const remMins = mins % 60;
+    return `${hours}h ${remMins}m`;
+  }
+  return `${mins}m ${secs}s`;
+}
+
+function metadataLine(label: string, value: string): Paragraph {
+  return new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true }),
+      new TextRun(value),
+    ],
+  });
+}
+
+function segmentParagraph(segment: TranscriptionSegment): Paragraph {
+  const children: TextRun[] = [
+    new TextRun({ text: `[${formatTimestamp(segment.start)}] `, color: "666666" }),
+  ];
+  if (segment.speaker) {
+    children.push(new TextRun({ text: `${segment.speaker}: `, bold: true }));
+  }
+  children.push(new TextRun(segment.text));
+
+  return new Paragraph({ children, spacing: { after: 160 } });
+}
+
+// Builds a Word document with a metadata header and one paragraph per segment
+export async function buildTranscriptionDocx(transcription: Transcription): Promise<Buffer> {
+  const segments = (transcription.segments || []) as TranscriptionSegment[];
+  const text = transcription.transcriptionText || "";
+  const wordCount = transcription.wordCount ?? text.split(/\s+/).filter(Boolean).length;
+
+  const header: Paragraph[] = [
+    new Paragraph({ text: transcription.title, heading: HeadingLevel.TITLE }),
+    metadataLine("Arquivo original", transcription.originalFileName),
+    metadataLine("Duração", formatDuration(transcription.duration)),
+    metadataLine("Palavras", wordCount.toLocaleString("pt-BR")),
+    new Paragraph({ text: "Transcrição", heading: HeadingLevel.HEADING_1 }),
+  ];
+
+  // Older transcriptions may only have plain text
+  const body = segments.length > 0
+    ? segments.map(segmentParagraph)
+    : text.split(/\n\s*\n/).filter(Boolean).map((p) => new Paragraph({ text: p.trim(), spacing: { after: 160 } }));
+
+  const doc = new Document({
+    creator: "IA Transcreve",
+    title: transcription.title,
+    sections: [{ children: [...header, ...body] }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+function formatCueTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+export function buildSrt(segments: TranscriptionSegment[]): string {
+  return segments
+    .map((segment, i) => {
+      const text = segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+      return `${i + 1}\n${formatCueTimestamp(segment.start, ",")} --> ${formatCueTimestamp(segment.end, ",")}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function buildVtt(segments: TranscriptionSegment[]): string {
+  const cues = segments.map((segment) => {
+    // WebVTT voice spans carry the speaker so players can style them
+    const text = segment.speaker
+      ? `<v ${escapeVtt(segment.speaker)}>${escapeVtt(segment.text)}`
+      : escapeVtt(segment.text);
+    return `${formatCueTimestamp(segment.start, ".")} --> ${formatCueTimestamp(segment.end, ".")}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+function pdfSectionTitle(doc: PDFKit.PDFDocument, title: string) {
+  doc.moveDown(1).font("Helvetica-Bold").fontSize(16).fillColor("#111111").text(title);
+  doc.moveDown(0.5).font("Helvetica").fontSize(11);
+}
+
+function pdfThemeTable(doc: PDFKit.PDFDocument, themes: { name: string; count: number }[]) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const countWidth = 80;
+
+  const row = (name: string, count: string, bold: boolean) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+    doc.text(name, left + 4, y + 4, { width: width - countWidth - 8 });
+    const nameBottom = doc.y;
+    doc.text(count, left + width - countWidth, y + 4, { width: countWidth - 4, align: "right" });
+    const bottom = Math.max(nameBottom, doc.y) + 4;
+    doc.moveTo(left, bottom).lineTo(left + width, bottom).strokeColor("#cccccc").stroke();
+    doc.x = left;
+    doc.y = bottom;
+  };
+
+  row("Tema", "Ocorrências", true);
+  for (const theme of themes) {
+    row(theme.name, String(theme.count), false);
+  }
+}
+
+// Renders a completed analysis as a report: cover, analysis text, categories, theme frequencies and quotes
+export async function buildAnalysisPdf(analysis: Analysis): Promise<Buffer> {
+  const categories = (analysis.categories || []) as string[];
+  const themes = (analysis.themes || []) as { name: string; count: number }[];
+  const quotes = (analysis.quotes || []) as AnalysisQuote[];
+  // Deductive analyses only
+  const categoryGrid = analysis.categoryGrid as GridCategory[] | null;
+  const unclassified = analysis.unclassifiedUnits as UnclassifiedUnit[] | null;
+
+  const doc = new PDFDocument({ size: "A4", margin: 56, info: { Title: analysis.title, Creator: "IA Transcreve" } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Cover
+  doc.moveDown(8);
+  doc.font("Helvetica-Bold").fontSize(26).text(analysis.title, { align: "center" });
+  doc.moveDown(1);
+  doc.font("Helvetica").fontSize(13).fillColor("#444444")
+    .text("Análise de Conteúdo segundo Laurence Bardin", { align: "center" });
+  doc.moveDown(3).fontSize(11);
+  doc.text(`Referencial teórico: ${analysis.theoreticalFrameworkFileName || "não informado"}`, { align: "center" });
+  doc.moveDown(0.5).text(
+    `Categorização: ${categoryGrid ? "grade fechada definida pelo pesquisador (dedutiva)" : "emergente"}`,
+    { align: "center" }
+  );
+  if (analysis.completedAt) {
+    doc.moveDown(0.5).text(`Concluída em ${new Date(analysis.completedAt).toLocaleDateString("pt-BR")}`, { align: "center" });
+  }
+  doc.fillColor("#111111");
+
+  doc.addPage();
+  pdfSectionTitle(doc, "Análise");
+  doc.text(analysis.analysisResult || "Análise não disponível.", { align: "justify" });
+
+  if (categoryGrid) {
+    pdfSectionTitle(doc, "Grade de Categorias");
+    categoryGrid.forEach((category, i) => {
+      doc.font("Helvetica-Bold").text(`${i + 1}. ${category.name}`);
+      doc.font("Helvetica").text(category.definition, { indent: 16 }).moveDown(0.3);
+    });
+  } else if (categories.length > 0) {
+    pdfSectionTitle(doc, "Categorias");
+    categories.forEach((category, i) => {
+      doc.text(`${i + 1}. ${category}`).moveDown(0.2);
+    });
+  }
+
+  if (themes.length > 0) {
+    pdfSectionTitle(doc, "Frequência de Temas");
+    pdfThemeTable(doc, themes);
+  }
+
+  if (quotes.length > 0) {
+    pdfSectionTitle(doc, "Citações por Categoria");
+    const byCategory = new Map<string, AnalysisQuote[]>();
+    for (const quote of quotes) {
+      const list = byCategory.get(quote.category) || [];
+      list.push(quote);
+      byCategory.set(quote.category, list);
+    }
+    byCategory.forEach((categoryQuotes, category) => {
+      doc.moveDown(0.5).font("Helvetica-Bold").fontSize(12).text(category);
+      doc.font("Helvetica-Oblique").fontSize(10);
+      for (const quote of categoryQuotes) {
+        doc.moveDown(0.3).text(`"${quote.text}"${quote.source ? ` (${quote.source})` : ""}`, { indent: 16 });
+      }
+      doc.font("Helvetica").fontSize(11);
+    });
+  }
+
+  if (unclassified && unclassified.length > 0) {
+    pdfSectionTitle(doc, "Unidades Não Classificadas");
+    for (const unit of unclassified) {
+      doc.moveDown(0.3).font("Helvetica-Oblique").fontSize(10)
+        .text(`"${unit.text}"${unit.source ? ` (${unit.source})` : ""}`, { indent: 16 });
+      if (unit.reason) {
+        doc.font("Helvetica").text(unit.reason, { indent: 16 });
+      }
+    }
+    doc.font("Helvetica").fontSize(11);
+  }
+
+  doc.end();
+  return done;
+}
@@ -5,6 +5,10 @@ import { createServer } from "http";
 import { runMigrations } from "stripe-replit-sync";
 import { getStripeSync } from "./stripeClient";
 import { WebhookHandlers } from "./webhookHandlers";
+import { startTranscriptionWorker } from "./transcriptionQueue";
+import { startMediaRetentionSweep } from "./mediaStorage";
+import { prepareFullTextSearch } from "./search";
+import { storage } from "./storage";
 
 const app = express();
 const httpServer = createServer(app);
@@ -160,6 +164,13 @@ app.use((req, res, next) => {
     await setupVite(httpServer, app);
   }
 
+  // Searches would fail without the text search configuration, so it is in place before the server listens
+  try {
+    await prepareFullTextSearch();
+  } catch (err: any) {
+    log(`Failed to prepare full-text search: ${err.message}`, "search");
+  }
+
   const port = parseInt(process.env.PORT || "5000", 10);
   httpServer.listen(
     {
@@ -171,4 +182,15 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  startTranscriptionWorker()
+    .then(() => log("Transcription worker started", "worker"))
+    .catch((err) => log(`Failed to start transcription worker: ${err.message}`, "worker"));
+  startMediaRetentionSweep();
+  storage.failInterruptedRedactions()
+    .then((count) => count > 0 && log(`Marked ${count} interrupted redaction(s) as failed`, "redaction"))
+    .catch((err) => log(`Failed to reset interrupted redactions: ${err.message}`, "redaction"));
+  storage.failInterruptedCodingSuggestions()
+    .then((count) => count > 0 && log(`Marked ${count} interrupted coding suggestion run(s) as failed`, "coding"))
+    .catch((err) => log(`Failed to reset interrupted coding suggestions: ${err.message}`, "coding"));
 })();
@@ -0,0 +1,139 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+
+// Days the original media is kept after upload; 0 keeps it until the transcription is deleted
+export const MEDIA_RETENTION_DAYS = retentionDaysEnv("MEDIA_RETENTION_DAYS", 90);
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// A malformed value would give every upload an invalid expiry date, so it falls back to the default
+function retentionDaysEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value >= 0) return value;
+  console.warn(`Ignoring invalid ${name}=${raw}; using ${fallback}`);
+  return fallback;
+}
+
+export interface MediaStorage {
+  readonly name: string;
+  // Moves a file into storage; the source is gone afterwards
+  put(sourcePath: string, key: string): Promise<void>;
+  // Path that ffmpeg and the speech backends can read; remote adapters would download to a temp file
+  localPath(key: string): Promise<string>;
+  size(key: string): Promise<number | null>;
+  createReadStream(key: string, range?: { start: number; end: number }): NodeJS.ReadableStream;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps media on the server's disk, outside /tmp so it outlives a restart
+export class LocalDiskMediaStorage implements MediaStorage {
+  readonly name = "local";
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(sourcePath: string, key: string): Promise<void> {
+    const target = this.resolve(key);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    try {
+      fs.renameSync(sourcePath, target);
+    } catch (e) {
+      // rename fails across devices (e.g. tmpfs -> disk)
+      fs.copyFileSync(sourcePath, target);
+      fs.unlinkSync(sourcePath);
+    }
+  }
+
+  async localPath(key: string): Promise<string> {
+    return this.resolve(key);
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return fs.statSync(this.resolve(key)).size;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  createReadStream(key: string, range?: { start: number; end: number }): NodeJS.ReadableStream {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    try { fs.unlinkSync(this.resolve(key)); } catch (e) {}
+  }
+}
+
+function createMediaStorage(): MediaStorage {
+  const adapter = process.env.MEDIA_STORAGE || "local";
+
+  switch (adapter) {
+    case "local":
+      return new LocalDiskMediaStorage(
+        process.env.MEDIA_STORAGE_DIR ||
+        process.env.TRANSCRIPTION_JOBS_DIR ||
+        path.join(process.cwd(), "data", "uploads")
+      );
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE: ${adapter}`);
+  }
+}
+
+let mediaStorage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+  if (!mediaStorage) {
+    mediaStorage = createMediaStorage();
+  }
+  return mediaStorage;
+}
+
+export function getMediaExpiry(uploadedAt: Date = new Date()): Date | null {
+  if (MEDIA_RETENTION_DAYS <= 0) return null;
+  return new Date(uploadedAt.getTime() + MEDIA_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Deletes media past its retention date; the transcript itself is kept
+export async function purgeExpiredMedia(): Promise<number> {
+  const expired = await storage.getTranscriptionsWithExpiredMedia(new Date());
+  let purged = 0;
+
+  for (const transcription of expired) {
+    // Never pull the file from under a job that is still transcribing it
+    const job = await storage.getLatestTranscriptionJob(transcription.id);
+    if (job && (job.status === "pending" || job.status === "running")) continue;
+
+    await getMediaStorage().delete(transcription.mediaKey!);
+    await storage.updateTranscription(transcription.id, { mediaKey: null, mediaExpiresAt: null });
+    purged++;
+  }
+
+  return purged;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export function startMediaRetentionSweep() {
+  const sweep = () => {
+    purgeExpiredMedia()
+      .then((purged) => {
+        if (purged > 0) console.log(`Deleted media of ${purged} transcription(s) past the retention period`);
+      })
+      .catch((error) => console.error("Error purging expired media:", error));
+  };
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+    sweep();
+  }
+}
@@ -1,14 +1,23 @@
 import OpenAI from "openai";
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { exec } from "child_process";
 import { promisify } from "util";
-import type { TranscriptionSegment, TranscriptionChunkProgress } from "@shared/schema";
+import { z } from "zod";
+import type {
+  TranscriptionSegment,
+  TranscriptionChunkProgress,
+  TranscriptionSpeaker,
+  TranscriptionWord,
+  TranscriptionSegmentScore,
+  AnalysisQuote,
+  GridCategory,
+  UnclassifiedUnit,
+} from "@shared/schema";
 
 const execAsync = promisify(exec);
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
 const CHUNK_DURATION_SECONDS = 600;
 const MAX_FILE_SIZE_MB = 25;
 const PREMIUM_MAX_CHUNK_SIZE_MB = 5;
@@ -45,7 +54,7 @@ async function convertToMp3(inputPath: string): Promise<string> {
   return outputPath;
 }
 
-async function convertToWav(inputPath: string): Promise<string> {
+export async function convertToWav(inputPath: string): Promise<string> {
   const outputPath = inputPath.replace(/\.[^/.]+$/, "_converted.wav");
   
   await execAsync(
@@ -117,9 +126,10 @@ export async function prepareAudioChunks(audioFilePath: string, isPremium: boole
 
 export async function transcribeSingleChunk(
   chunkPath: string, 
-  startOffset: number
-): Promise<{ text: string; segments: TranscriptionSegment[] }> {
-  return transcribeChunkWithTimestamps(chunkPath, startOffset);
+  startOffset: number,
+  language?: string
+): Promise<ChunkTranscript> {
+  return transcribeChunkWithTimestamps(chunkPath, startOffset, language);
 }
 
 export function cleanupChunks(convertedPath: string, chunks: { path: string }[], originalPath: string) {
@@ -159,13 +169,8 @@ async function splitAudioIntoChunks(filePath: string, chunkDuration: number): Pr
   return chunks;
 }
 
-function formatTimestamp(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
-
-function groupSegmentsByMinute(segments: TranscriptionSegment[]): TranscriptionSegment[] {
+// Merges consecutive segments of the same speaker, starting a new block every minute
+export function groupSegmentsByMinute(segments: TranscriptionSegment[]): TranscriptionSegment[] {
   if (segments.length === 0) return [];
   
   const groupedSegments: TranscriptionSegment[] = [];
@@ -181,12 +186,9 @@ function groupSegmentsByMinute(segments: TranscriptionSegment[]): TranscriptionS
     const seg = segments[i];
     const segMinute = Math.floor(seg.start / 60);
     
-    if (segMinute === currentMinute) {
+    if (segMinute === currentMinute && seg.speaker === currentSegment.speaker) {
       currentSegment.text += " " + seg.text;
       currentSegment.end = seg.end;
-      if (seg.speaker && seg.speaker !== currentSegment.speaker) {
-        currentSegment.speaker = undefined;
-      }
     } else {
       groupedSegments.push(currentSegment);
       currentMinute = segMinute;
@@ -203,88 +205,755 @@ function groupSegmentsByMinute(segments: TranscriptionSegment[]): TranscriptionS
   return groupedSegments;
 }
 
-async function transcribeChunkWithTimestamps(audioFilePath: string, startOffset: number = 0): Promise<{
+// Raw output of a speech-to-text backend, with times relative to the start of the file
+export type ProviderTranscript = {
+  text: string;
+  segments: { start: number; end: number; text: string; avgLogprob?: number; noSpeechProb?: number }[];
+  words?: { start: number; end: number; word: string; probability?: number }[];
+  language?: string; // ISO 639-1 code, detected or as requested
+};
+
+// language is an ISO 639-1 code; leave it undefined to let the backend detect it
+export type TranscribeOptions = { language?: string };
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audioFilePath: string, options: TranscribeOptions): Promise<ProviderTranscript>;
+}
+
+// verbose_json reports the language by name rather than code
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  portuguese: "pt",
+  spanish: "es",
+  english: "en",
+};
+
+function normalizeLanguage(language?: string): string | undefined {
+  if (!language) return undefined;
+  const lower = language.toLowerCase();
+  return WHISPER_LANGUAGE_CODES[lower] || lower;
+}
+
+export class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  // Created with the provider, so local-only deployments never need OPENAI_API_KEY
+  private readonly client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+  async transcribe(audioFilePath: string, options: TranscribeOptions): Promise<ProviderTranscript> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: fs.createReadStream(audioFilePath),
+      model: "whisper-1",
+      ...(options.language ? { language: options.language } : {}),
+      response_format: "verbose_json",
+      timestamp_granularities: ["word", "segment"],
+    });
+
+    // The API has no per-word probability; words inherit their segment's score later
+    return {
+      text: transcription.text,
+      language: normalizeLanguage(transcription.language) || options.language,
+      segments: (transcription.segments || []).map((seg: any) => ({
+        start: seg.start || 0,
+        end: seg.end || 0,
+        text: seg.text?.trim() || "",
+        avgLogprob: seg.avg_logprob,
+        noSpeechProb: seg.no_speech_prob,
+      })),
+      words: (transcription.words || []).map((w) => ({
+        start: w.start,
+        end: w.end,
+        word: w.word.trim(),
+      })),
+    };
+  }
+}
+
+// Runs a local Whisper build as a subprocess so audio never leaves the server.
+// "whisper-cpp" expects whisper.cpp's CLI and a ggml model file; "faster-whisper"
+// expects whisper-ctranslate2, which mirrors the openai-whisper CLI and JSON output.
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly engine: "whisper-cpp" | "faster-whisper",
+    private readonly binary: string,
+    private readonly model: string,
+  ) {
+    this.name = engine;
+  }
+
+  async transcribe(audioFilePath: string, options: TranscribeOptions): Promise<ProviderTranscript> {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisper-"));
+    try {
+      return this.engine === "whisper-cpp"
+        ? await this.runWhisperCpp(audioFilePath, outputDir, options.language)
+        : await this.runFasterWhisper(audioFilePath, outputDir, options.language);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  private async runWhisperCpp(audioFilePath: string, outputDir: string, language?: string): Promise<ProviderTranscript> {
+    // whisper.cpp only reads 16 kHz WAV
+    const isWav = path.extname(audioFilePath).toLowerCase() === ".wav";
+    const wavPath = isWav ? audioFilePath : await convertToWav(audioFilePath);
+    const outputBase = path.join(outputDir, "out");
+
+    try {
+      await execAsync(
+        `"${this.binary}" -m "${this.model}" -f "${wavPath}" -l ${language || "auto"} -ojf -of "${outputBase}" -np`,
+        { maxBuffer: 10 * 1024 * 1024 }
+      );
+    } finally {
+      if (!isWav) {
+        try { fs.unlinkSync(wavPath); } catch (e) {}
+      }
+    }
+
+    const result = JSON.parse(fs.readFileSync(`${outputBase}.json`, "utf-8"));
+    const words: NonNullable<ProviderTranscript["words"]> = [];
+    const segments = (result.transcription || []).map((seg: any) => {
+      const tokens = whisperCppTextTokens(seg.tokens || []);
+      words.push(...whisperCppWords(tokens));
+      return {
+        start: (seg.offsets?.from || 0) / 1000,
+        end: (seg.offsets?.to || 0) / 1000,
+        text: seg.text?.trim() || "",
+        avgLogprob: tokens.length > 0
+          ? tokens.reduce((total, t) => total + Math.log(Math.max(t.p, 1e-6)), 0) / tokens.length
+          : undefined,
+      };
+    });
+
+    return {
+      text: segments.map((s: { text: string }) => s.text).filter(Boolean).join(" "),
+      segments,
+      words,
+      language: normalizeLanguage(result.result?.language) || language,
+    };
+  }
+
+  private async runFasterWhisper(audioFilePath: string, outputDir: string, language?: string): Promise<ProviderTranscript> {
+    const languageArg = language ? ` --language ${language}` : "";
+    await execAsync(
+      `"${this.binary}" "${audioFilePath}" --model ${this.model}${languageArg} --word_timestamps True --output_format json --output_dir "${outputDir}"`,
+      { maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    const outputName = path.basename(audioFilePath).replace(/\.[^/.]+$/, "") + ".json";
+    const result = JSON.parse(fs.readFileSync(path.join(outputDir, outputName), "utf-8"));
+
+    return {
+      text: (result.text || "").trim(),
+      language: normalizeLanguage(result.language) || language,
+      segments: (result.segments || []).map((seg: any) => ({
+        start: seg.start || 0,
+        end: seg.end || 0,
+        text: seg.text?.trim() || "",
+        avgLogprob: seg.avg_logprob,
+        noSpeechProb: seg.no_speech_prob,
+      })),
+      words: (result.segments || []).flatMap((seg: any) => (seg.words || []).map((w: any) => ({
+        start: w.start || 0,
+        end: w.end || 0,
+        word: (w.word || "").trim(),
+        probability: w.probability,
+      }))),
+    };
+  }
+}
+
+type WhisperCppToken = { text: string; p: number; from: number; to: number };
+
+// Drops whisper.cpp's control tokens ([_BEG_], [_TT_150], <|endoftext|>...)
+function whisperCppTextTokens(tokens: any[]): WhisperCppToken[] {
+  return tokens
+    .filter((t) => typeof t.text === "string" && !/^(\[_|<\|)/.test(t.text))
+    .map((t) => ({ text: t.text, p: t.p ?? 1, from: (t.offsets?.from || 0) / 1000, to: (t.offsets?.to || 0) / 1000 }));
+}
+
+// Tokens are sub-word pieces; a leading space starts a new word, which is as
+// confident as its least confident piece
+function whisperCppWords(tokens: WhisperCppToken[]): NonNullable<ProviderTranscript["words"]> {
+  const words: NonNullable<ProviderTranscript["words"]> = [];
+  for (const token of tokens) {
+    const current = words[words.length - 1];
+    if (!current || token.text.startsWith(" ")) {
+      words.push({ start: token.from, end: token.to, word: token.text.trim(), probability: token.p });
+    } else {
+      current.word += token.text;
+      current.end = token.to;
+      current.probability = Math.min(current.probability ?? 1, token.p);
+    }
+  }
+  return words.filter((w) => w.word);
+}
+
+function createTranscriptionProvider(): TranscriptionProvider {
+  const providerName = process.env.TRANSCRIPTION_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAIWhisperProvider();
+    case "whisper-cpp": {
+      const model = process.env.WHISPER_CPP_MODEL;
+      if (!model) {
+        throw new Error("WHISPER_CPP_MODEL must be set to a ggml model file when TRANSCRIPTION_PROVIDER=whisper-cpp");
+      }
+      return new LocalWhisperProvider("whisper-cpp", process.env.WHISPER_CPP_BIN || "whisper-cli", model);
+    }
+    case "faster-whisper":
+      return new LocalWhisperProvider(
+        "faster-whisper",
+        process.env.FASTER_WHISPER_BIN || "whisper-ctranslate2",
+        process.env.FASTER_WHISPER_MODEL || "medium",
+      );
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${providerName}`);
+  }
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!transcriptionProvider) {
+    transcriptionProvider = createTranscriptionProvider();
+  }
+  return transcriptionProvider;
+}
+
+type ChunkTranscript = {
   text: string;
   segments: TranscriptionSegment[];
-}> {
-  const audioReadStream = fs.createReadStream(audioFilePath);
-  
-  const transcription = await openai.audio.transcriptions.create({
-    file: audioReadStream,
-    model: "whisper-1",
-    language: "pt",
-    response_format: "verbose_json",
-    timestamp_granularities: ["segment"],
+  words: TranscriptionWord[];
+  segmentScores: TranscriptionSegmentScore[];
+  language?: string;
+};
+
+async function transcribeChunkWithTimestamps(audioFilePath: string, startOffset: number = 0, language: string = "pt"): Promise<ChunkTranscript> {
+  const result = await getTranscriptionProvider().transcribe(audioFilePath, {
+    language: language === "auto" ? undefined : language,
   });
-  
-  const segments: TranscriptionSegment[] = (transcription.segments || []).map((seg: any) => ({
-    start: (seg.start || 0) + startOffset,
-    end: (seg.end || 0) + startOffset,
-    text: seg.text?.trim() || "",
+
+  const segments: TranscriptionSegment[] = result.segments.map((seg) => ({
+    start: seg.start + startOffset,
+    end: seg.end + startOffset,
+    text: seg.text,
     speaker: undefined,
   }));
-  
+
+  const segmentScores: TranscriptionSegmentScore[] = result.segments.map((seg) => ({
+    start: seg.start + startOffset,
+    end: seg.end + startOffset,
+    avgLogprob: seg.avgLogprob,
+    noSpeechProb: seg.noSpeechProb,
+  }));
+
+  // Without a per-word probability, a word is as confident as the segment it falls in
+  const words: TranscriptionWord[] = (result.words || []).map((w) => {
+    const segment = result.segments.find((seg) => w.start >= seg.start && w.start < seg.end);
+    const confidence = w.probability ??
+      (segment?.avgLogprob !== undefined ? Math.exp(segment.avgLogprob) : undefined);
+    return {
+      start: w.start + startOffset,
+      end: w.end + startOffset,
+      word: w.word,
+      confidence,
+    };
+  });
+
   return {
-    text: transcription.text,
+    text: result.text,
     segments,
+    words,
+    segmentScores,
+    language: result.language,
   };
 }
 
-async function identifySpeakers(segments: TranscriptionSegment[]): Promise<TranscriptionSegment[]> {
-  if (segments.length === 0) return segments;
-  
-  const fullText = segments.map((s, i) => `[${i}] ${s.text}`).join("\n");
-  
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `Você é um especialista em identificar diferentes falantes em transcrições de entrevistas.
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// "analysis" is the strong model used for Bardin analysis, "fast" the cheap one for auxiliary tasks
+export type ChatModelPurpose = "analysis" | "fast";
+
+export interface ChatModelProvider {
+  readonly name: string;
+  completeJson(messages: ChatMessage[], options: { purpose: ChatModelPurpose; maxTokens: number }): Promise<string>;
+}
+
+// Works with OpenAI itself and any server exposing the same API (Ollama, llama.cpp server, vLLM...)
+export class OpenAICompatibleChatProvider implements ChatModelProvider {
+  constructor(
+    readonly name: string,
+    private readonly client: OpenAI,
+    private readonly models: Record<ChatModelPurpose, string>,
+  ) {}
+
+  async completeJson(messages: ChatMessage[], options: { purpose: ChatModelPurpose; maxTokens: number }): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.models[options.purpose],
+      messages,
+      response_format: { type: "json_object" },
+      max_tokens: options.maxTokens,
+    });
+    return response.choices[0].message.content || "{}";
+  }
+}
+
+// Returns canned responses and records every call; meant for tests and offline development
+export class FakeChatProvider implements ChatModelProvider {
+  readonly name = "fake";
+  readonly calls: { messages: ChatMessage[]; purpose: ChatModelPurpose }[] = [];
+
+  constructor(private readonly respond: (messages: ChatMessage[], purpose: ChatModelPurpose) => string = () => "{}") {}
+
+  async completeJson(messages: ChatMessage[], options: { purpose: ChatModelPurpose; maxTokens: number }): Promise<string> {
+    this.calls.push({ messages, purpose: options.purpose });
+    return this.respond(messages, options.purpose);
+  }
+}
+
+function createChatModelProvider(): ChatModelProvider {
+  const providerName = process.env.LLM_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAICompatibleChatProvider("openai", new OpenAI({ apiKey: process.env.OPENAI_API_KEY }), {
+        analysis: process.env.LLM_ANALYSIS_MODEL || "gpt-4o",
+        fast: process.env.LLM_FAST_MODEL || "gpt-4o-mini",
+      });
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      const analysisModel = process.env.LLM_ANALYSIS_MODEL;
+      if (!baseURL || !analysisModel) {
+        throw new Error("LLM_BASE_URL and LLM_ANALYSIS_MODEL must be set when LLM_PROVIDER=openai-compatible");
+      }
+      // Local servers usually ignore the key, but the client requires one
+      const client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || "not-needed" });
+      return new OpenAICompatibleChatProvider("openai-compatible", client, {
+        analysis: analysisModel,
+        fast: process.env.LLM_FAST_MODEL || analysisModel,
+      });
+    }
+    case "fake":
+      return new FakeChatProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
+
+let chatModelProvider: ChatModelProvider | null = null;
+
+export function getChatModelProvider(): ChatModelProvider {
+  if (!chatModelProvider) {
+    chatModelProvider = createChatModelProvider();
+  }
+  return chatModelProvider;
+}
+
+// Lets tests swap in a FakeChatProvider
+export function setChatModelProvider(provider: ChatModelProvider | null) {
+  chatModelProvider = provider;
+}
+
+// Output language and speaker labels for the LLM prompts, keyed by transcription language
+const PROMPT_LANGUAGES: Record<string, { name: string; interviewer: string; interviewee: string; speaker: string }> = {
+  pt: { name: "português", interviewer: "Entrevistador", interviewee: "Entrevistado", speaker: "Falante" },
+  es: { name: "espanhol", interviewer: "Entrevistador", interviewee: "Entrevistado", speaker: "Hablante" },
+  en: { name: "inglês", interviewer: "Interviewer", interviewee: "Interviewee", speaker: "Speaker" },
+};
+
+function getPromptLanguage(language?: string | null) {
+  return PROMPT_LANGUAGES[language || "pt"] || PROMPT_LANGUAGES.pt;
+}
+
+// Speaker labelling runs over windows of segments that fit in one prompt; the roster and the
+// tail of the previous window are carried over so the same person keeps the same label
+const SPEAKER_WINDOW_CHARS = 8000;
+const SPEAKER_CONTEXT_SEGMENTS = 4;
+
+function buildSpeakerWindows(segments: TranscriptionSegment[]): { start: number; end: number }[] {
+  const windows: { start: number; end: number }[] = [];
+  let start = 0;
+  let chars = 0;
+
+  segments.forEach((seg, i) => {
+    const length = seg.text.length + 8;
+    if (i > start && chars + length > SPEAKER_WINDOW_CHARS) {
+      windows.push({ start, end: i });
+      start = i;
+      chars = 0;
+    }
+    chars += length;
+  });
+  windows.push({ start, end: segments.length });
+
+  return windows;
+}
+
+function mergeSpeakerRoster(
+  roster: TranscriptionSpeaker[],
+  updates: any[],
+  usedLabels: string[],
+  labels: { interviewer: string; interviewee: string }
+): TranscriptionSpeaker[] {
+  const merged = roster.map((s) => ({ ...s }));
+  const find = (label: string) => merged.find((s) => s.label === label);
+
+  for (const update of updates) {
+    if (!update || typeof update.label !== "string") continue;
+    const role = ["interviewer", "interviewee", "other"].includes(update.role) ? update.role : "other";
+    const description = typeof update.description === "string" ? update.description : undefined;
+    const existing = find(update.label);
+    if (existing) {
+      existing.description = description || existing.description;
+    } else {
+      merged.push({ label: update.label, role, description });
+    }
+  }
+
+  // Labels the model used without describing them still belong in the roster
+  for (const label of usedLabels) {
+    if (find(label)) continue;
+    const role = label.startsWith(labels.interviewer) ? "interviewer"
+      : label.startsWith(labels.interviewee) ? "interviewee"
+      : "other";
+    merged.push({ label, role });
+  }
+
+  return merged;
+}
+
+export async function identifySpeakers(
+  segments: TranscriptionSegment[],
+  language?: string | null,
+  initialRoster: TranscriptionSpeaker[] = []
+): Promise<{ segments: TranscriptionSegment[]; roster: TranscriptionSpeaker[] }> {
+  let roster = initialRoster;
+  if (segments.length === 0) return { segments, roster };
+  const labels = getPromptLanguage(language);
+  const labelled = segments.map((seg) => ({ ...seg }));
+
+  for (const window of buildSpeakerWindows(segments)) {
+    const windowText = labelled
+      .slice(window.start, window.end)
+      .map((s, i) => `[${window.start + i}] ${s.text}`)
+      .join("\n");
+    const context = labelled
+      .slice(Math.max(0, window.start - SPEAKER_CONTEXT_SEGMENTS), window.start)
+      .map((s) => `(${s.speaker || "?"}) ${s.text}`)
+      .join("\n");
+
+    try {
+      const content = await getChatModelProvider().completeJson(
+        [
+          {
+            role: "system",
+            content: `Você é um especialista em identificar diferentes falantes em transcrições de entrevistas.
 Analise o texto e identifique padrões de fala que indicam diferentes pessoas (entrevistador vs entrevistado).
 Geralmente o entrevistador faz perguntas e o entrevistado responde.
 
+A entrevista está em ${labels.name}.
+
 Responda em JSON com o formato:
 {
   "speakers": [
-    {"index": 0, "speaker": "Entrevistador"},
-    {"index": 1, "speaker": "Entrevistado 1"},
+    {"index": 0, "speaker": "${labels.interviewer}"},
+    {"index": 1, "speaker": "${labels.interviewee} 1"},
     ...
+  ],
+  "roster": [
+    {"label": "${labels.interviewee} 1", "role": "interviewee", "description": "como reconhecer este falante"}
+  ]
+}
+
+Use "${labels.interviewer}" para quem faz perguntas e "${labels.interviewee} 1", "${labels.interviewee} 2", etc. para os entrevistados.
+Se não conseguir distinguir, use "${labels.speaker}" para todos.
+O campo "role" deve ser "interviewer", "interviewee" ou "other".
+A transcrição é enviada em partes: reutilize exatamente os rótulos dos falantes já conhecidos e inclua em "roster" apenas falantes novos ou descrições atualizadas.`
+          },
+          {
+            role: "user",
+            content: [
+              roster.length > 0 ? `Falantes já identificados:\n${JSON.stringify(roster)}` : "",
+              context ? `Final da parte anterior (já rotulado):\n${context}` : "",
+              `Identifique os falantes nesta parte da transcrição:\n\n${windowText}`,
+            ].filter(Boolean).join("\n\n")
+          }
+        ],
+        { purpose: "fast", maxTokens: 2048 }
+      );
+
+      const result = JSON.parse(content);
+      const usedLabels = new Set<string>();
+
+      if (result.speakers && Array.isArray(result.speakers)) {
+        for (const s of result.speakers) {
+          if (typeof s.index === 'number' && typeof s.speaker === 'string' &&
+              s.index >= window.start && s.index < window.end) {
+            labelled[s.index].speaker = s.speaker;
+            usedLabels.add(s.speaker);
+          }
+        }
+      }
+
+      roster = mergeSpeakerRoster(roster, Array.isArray(result.roster) ? result.roster : [], Array.from(usedLabels), labels);
+    } catch (error) {
+      // A failed window keeps its segments unlabelled; the rest of the interview still gets labels
+      console.error(`Error identifying speakers for segments ${window.start}-${window.end - 1}:`, error);
+    }
+  }
+
+  return { segments: labelled, roster };
+}
+
+// Diarization already separated the voices, so the model only has to say who each cluster
+// is; it sees the opening of the conversation and an excerpt of what every cluster said
+const CLUSTER_SAMPLE_CHARS = 1500;
+const CLUSTER_OPENING_CHARS = 3000;
+
+export async function nameSpeakerClusters(
+  segments: TranscriptionSegment[],
+  language?: string | null,
+  knownSpeakers: TranscriptionSpeaker[] = []
+): Promise<{ segments: TranscriptionSegment[]; roster: TranscriptionSpeaker[] }> {
+  const labels = getPromptLanguage(language);
+  const clusters = Array.from(new Set(segments.map((s) => s.speaker).filter((s): s is string => !!s)));
+  if (clusters.length === 0) return { segments, roster: knownSpeakers };
+
+  const samples = clusters.map((cluster) => {
+    const own = segments.filter((s) => s.speaker === cluster);
+    return {
+      cluster,
+      speakingSeconds: Math.round(own.reduce((total, s) => total + (s.end - s.start), 0)),
+      sample: own.map((s) => s.text).join(" ").substring(0, CLUSTER_SAMPLE_CHARS),
+    };
+  });
+
+  let opening = "";
+  for (const s of segments) {
+    if (opening.length >= CLUSTER_OPENING_CHARS) break;
+    opening += `(${s.speaker || "?"}) ${s.text}\n`;
+  }
+
+  const names = new Map<string, TranscriptionSpeaker>();
+  try {
+    const content = await getChatModelProvider().completeJson(
+      [
+        {
+          role: "system",
+          content: `Você recebe uma entrevista em que as vozes já foram separadas automaticamente em grupos (clusters).
+Sua tarefa é apenas dar um nome a cada cluster, sem reagrupar as falas.
+Geralmente o entrevistador faz perguntas e o entrevistado responde.
+
+A entrevista está em ${labels.name}.
+
+Responda em JSON com o formato:
+{
+  "clusters": [
+    {"cluster": "SPEAKER_00", "label": "${labels.interviewer}", "role": "interviewer", "description": "como reconhecer este falante"},
+    {"cluster": "SPEAKER_01", "label": "${labels.interviewee} 1", "role": "interviewee", "description": "..."}
   ]
 }
 
-Use "Entrevistador" para quem faz perguntas e "Entrevistado 1", "Entrevistado 2", etc. para os entrevistados.
-Se não conseguir distinguir, use "Falante" para todos.`
+Use "${labels.interviewer}" para quem faz perguntas e "${labels.interviewee} 1", "${labels.interviewee} 2", etc. para os entrevistados.
+Use "${labels.speaker} 1", "${labels.speaker} 2", etc. para quem não for possível identificar.
+O campo "role" deve ser "interviewer", "interviewee" ou "other". Cada cluster deve receber um rótulo diferente.`
         },
         {
           role: "user",
-          content: `Identifique os falantes nesta transcrição:\n\n${fullText.substring(0, 8000)}`
+          content: [
+            knownSpeakers.length > 0 ? `Falantes já identificados anteriormente (reutilize os rótulos quando corresponderem):\n${JSON.stringify(knownSpeakers)}` : "",
+            `Início da conversa:\n${opening}`,
+            `Clusters:\n${JSON.stringify(samples)}`,
+          ].filter(Boolean).join("\n\n")
         }
       ],
-      response_format: { type: "json_object" },
-      max_tokens: 2048,
-    });
-    
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    const speakerMap = new Map<number, string>();
-    
-    if (result.speakers && Array.isArray(result.speakers)) {
-      for (const s of result.speakers) {
-        if (typeof s.index === 'number' && typeof s.speaker === 'string') {
-          speakerMap.set(s.index, s.speaker);
-        }
+      { purpose: "fast", maxTokens: 1024 }
+    );
+
+    const result = JSON.parse(content);
+    if (result.clusters && Array.isArray(result.clusters)) {
+      for (const c of result.clusters) {
+        if (typeof c.cluster !== "string" || !clusters.includes(c.cluster) || typeof c.label !== "string" || !c.label.trim()) continue;
+        names.set(c.cluster, {
+          label: c.label.trim(),
+          role: ["interviewer", "interviewee", "other"].includes(c.role) ? c.role : "other",
+          description: typeof c.description === "string" ? c.description : undefined,
+        });
       }
     }
-    
-    return segments.map((seg, i) => ({
-      ...seg,
-      speaker: speakerMap.get(i) || seg.speaker,
-    }));
   } catch (error) {
-    console.error("Error identifying speakers:", error);
-    return segments;
+    console.error("Error naming speaker clusters:", error);
   }
+
+  // Unnamed clusters get numbered labels, and two clusters never collapse into one label
+  const used = new Set<string>();
+  clusters.forEach((cluster, i) => {
+    let speaker = names.get(cluster) || { label: `${labels.speaker} ${i + 1}`, role: "other" as const };
+    if (used.has(speaker.label)) {
+      speaker = { ...speaker, label: `${speaker.label} (${i + 1})` };
+    }
+    used.add(speaker.label);
+    names.set(cluster, speaker);
+  });
+
+  return {
+    segments: segments.map((s) => ({ ...s, speaker: s.speaker ? names.get(s.speaker)!.label : undefined })),
+    roster: clusters.map((cluster) => names.get(cluster)!),
+  };
+}
+
+// Splits long text into pieces of at most maxChars, cutting at whitespace
+export function splitTextIntoWindows(text: string, maxChars: number): string[] {
+  const windows: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxChars) {
+    let cut = rest.lastIndexOf(" ", maxChars);
+    if (cut <= 0) cut = maxChars;
+    windows.push(rest.substring(0, cut));
+    rest = rest.substring(cut).trim();
+  }
+  if (rest) windows.push(rest);
+  return windows;
+}
+
+const REDACTION_WINDOW_CHARS = 8000;
+
+// Names, places and employers can't be caught by patterns, so the model lists them.
+// Any failure is thrown: silently missing a name is worse than asking the user to retry.
+export async function detectSensitiveEntities(
+  text: string,
+  language?: string | null
+): Promise<{ text: string; type: "name" | "place" | "organization" }[]> {
+  const labels = getPromptLanguage(language);
+  const entities: { text: string; type: "name" | "place" | "organization" }[] = [];
+
+  for (const window of splitTextIntoWindows(text, REDACTION_WINDOW_CHARS)) {
+    const content = await getChatModelProvider().completeJson(
+      [
+        {
+          role: "system",
+          content: `Você ajuda pesquisadores a anonimizar transcrições de entrevistas, conforme exigido por comitês de ética.
+Liste todas as menções que possam identificar participantes ou terceiros:
+- "name": nomes e apelidos de pessoas
+- "place": cidades, bairros, ruas, escolas, hospitais e outros lugares específicos
+- "organization": empregadores, empresas, órgãos e instituições
+
+A entrevista está em ${labels.name}.
+Copie cada menção exatamente como aparece no texto. Não inclua rótulos de falantes como "${labels.interviewer}" ou "${labels.interviewee} 1", nem termos genéricos (ex.: "a empresa", "minha cidade").
+
+Responda em JSON com o formato:
+{
+  "entities": [
+    {"text": "Maria", "type": "name"},
+    {"text": "Hospital São Lucas", "type": "place"}
+  ]
+}`
+        },
+        {
+          role: "user",
+          content: window
+        }
+      ],
+      { purpose: "fast", maxTokens: 2048 }
+    );
+
+    const result = JSON.parse(content);
+    if (result.entities && Array.isArray(result.entities)) {
+      for (const e of result.entities) {
+        if (typeof e.text === "string" && e.text.trim() && ["name", "place", "organization"].includes(e.type)) {
+          entities.push({ text: e.text.trim(), type: e.type });
+        }
+      }
+    }
+  }
+
+  return entities;
+}
+
+// Code of the project codebook as shown to the model; category is the parent code's name
+export type CodebookEntry = {
+  name: string;
+  definition?: string | null;
+  category?: string | null;
+};
+
+export type CodingSuggestion = {
+  segmentIndex: number;
+  code: string;
+  excerpt: string;
+  rationale: string;
+};
+
+// Proposes where the researcher's codes apply. The model only sees the codebook, not the
+// researcher's earlier decisions; the proposals are reviewed before they count as coding.
+export async function proposeCodings(
+  segments: TranscriptionSegment[],
+  codebook: CodebookEntry[],
+  language?: string | null
+): Promise<CodingSuggestion[]> {
+  const labels = getPromptLanguage(language);
+  const codebookText = codebook
+    .map((c) => `- "${c.name}"${c.category ? ` (categoria: ${c.category})` : ""}: ${c.definition || "sem definição"}`)
+    .join("\n");
+  const suggestions: CodingSuggestion[] = [];
+
+  for (const window of buildSpeakerWindows(segments)) {
+    const windowText = segments
+      .slice(window.start, window.end)
+      .map((s, i) => `[${window.start + i}]${s.speaker ? ` (${s.speaker})` : ""} ${s.text}`)
+      .join("\n");
+
+    const content = await getChatModelProvider().completeJson(
+      [
+        {
+          role: "system",
+          content: `Você auxilia pesquisadores na codificação de entrevistas segundo a análise de conteúdo de Bardin.
+Aplique somente os códigos do livro de códigos abaixo, respeitando suas definições operacionais. Não crie códigos novos.
+
+Livro de códigos:
+${codebookText}
+
+A entrevista está em ${labels.name}. Cada segmento começa com seu número entre colchetes.
+Para cada trecho que se encaixa em um código, copie o trecho exatamente como aparece em um único segmento (uma frase ou parte dela, não o segmento inteiro se ele for longo) e justifique em uma frase.
+Ignore as falas do ${labels.interviewer.toLowerCase()}, exceto quando forem essenciais. Um trecho pode receber mais de um código.
+
+Responda em JSON com o formato:
+{
+  "codings": [
+    {"segment": 12, "code": "nome do código", "excerpt": "trecho copiado do segmento", "rationale": "por que o código se aplica"}
+  ]
+}`
+        },
+        {
+          role: "user",
+          content: windowText
+        }
+      ],
+      { purpose: "analysis", maxTokens: 4096 }
+    );
+
+    const result = JSON.parse(content);
+    if (result.codings && Array.isArray(result.codings)) {
+      for (const c of result.codings) {
+        if (typeof c.segment === "number" && c.segment >= window.start && c.segment < window.end &&
+            typeof c.code === "string" && typeof c.excerpt === "string" && c.excerpt.trim()) {
+          suggestions.push({
+            segmentIndex: c.segment,
+            code: c.code.trim(),
+            excerpt: c.excerpt.trim(),
+            rationale: typeof c.rationale === "string" ? c.rationale.trim() : "",
+          });
+        }
+      }
+    }
+  }
+
+  return suggestions;
 }
 
 export async function transcribeAudio(audioFilePath: string): Promise<{
@@ -322,7 +991,7 @@ export async function transcribeAudio(audioFilePath: string): Promise<{
     }
     
     console.log("Identifying speakers...");
-    const segmentsWithSpeakers = await identifySpeakers(allSegments);
+    const { segments: segmentsWithSpeakers } = await identifySpeakers(allSegments);
     
     const groupedSegments = groupSegmentsByMinute(segmentsWithSpeakers);
     
@@ -343,16 +1012,48 @@ export async function transcribeAudio(audioFilePath: string): Promise<{
   }
 }
 
-export async function analyzeWithBardin(
-  transcriptionText: string,
-  theoreticalFramework?: string
-): Promise<{
+export type BardinResult = {
   analysis: string;
   categories: string[];
   themes: { name: string; count: number }[];
-  quotes: { text: string; category: string }[];
-}> {
-  const systemPrompt = `Você é um especialista em análise de conteúdo qualitativa, especificamente na metodologia de Laurence Bardin. Sua tarefa é realizar uma análise de conteúdo completa seguindo as três fases de Bardin:
+  quotes: AnalysisQuote[];
+  unclassified?: UnclassifiedUnit[]; // deductive analyses only
+};
+
+// One interview of a cross-interview analysis
+export type CorpusDocument = {
+  transcriptionId: number;
+  title: string;
+  text: string;
+};
+
+// Text up to this size is analysed in one call. Longer text, and corpora, are cut into chunks of this
+// size and coded chunk by chunk, so no single response has to hold the coding of the whole material.
+const ANALYSIS_CHUNK_CHARS = 40000;
+
+// Quotes per category shown to the final inference call
+const INFERENCE_QUOTES_PER_CATEGORY = 3;
+
+// A chunked analysis repeats the theoretical framework in every call, so a framework longer than this
+// is condensed once beforehand, window by window
+const FRAMEWORK_PROMPT_CHARS = 12000;
+
+// Instructions shared by every prompt of a deductive analysis
+function describeCategoryGrid(grid: GridCategory[]): string {
+  return `**Grade de categorias (análise dedutiva):**
+O pesquisador definiu as categorias de antemão. Use somente estas categorias, com exatamente estes nomes, aplicando suas definições operacionais. Não crie categorias novas.
+${grid.map((c) => `- ${c.name}: ${c.definition}`).join("\n")}
+
+Unidades de registro relevantes que não se encaixam em nenhuma categoria da grade devem ser listadas em "unclassified", com o motivo.`;
+}
+
+function buildBardinSystemPrompt(
+  theoreticalFramework: string | undefined,
+  language: string | null | undefined,
+  corpus: boolean,
+  grid?: GridCategory[]
+) {
+  return `Você é um especialista em análise de conteúdo qualitativa, especificamente na metodologia de Laurence Bardin. Sua tarefa é realizar uma análise de conteúdo completa seguindo as três fases de Bardin:
 
 1. **Pré-análise**: Leitura flutuante, escolha dos documentos, formulação de hipóteses e objetivos.
 2. **Exploração do material**: Codificação, categorização e classificação dos dados.
@@ -360,45 +1061,496 @@ export async function analyzeWithBardin(
 
 Ao analisar o texto, você deve:
 - Identificar unidades de registro (palavras, temas, frases)
-- Criar categorias temáticas emergentes
+${grid ? "- Classificar as unidades de registro nas categorias da grade definida pelo pesquisador" : "- Criar categorias temáticas emergentes"}
 - Identificar padrões e frequências
 - Extrair citações relevantes que exemplifiquem cada categoria
 - Realizar inferências baseadas nos dados
-
+${grid ? `
+${describeCategoryGrid(grid)}
+` : ""}${corpus ? `
+O material é um corpus de várias entrevistas, cada uma iniciada por um cabeçalho "=== Entrevista N: título ===". As categorias devem valer para o corpus inteiro: compare as entrevistas, apontando convergências e divergências entre os participantes, e extraia citações de entrevistas diferentes.
+` : ""}
 ${theoreticalFramework ? `
 **Referencial Teórico fornecido pelo pesquisador:**
 ${theoreticalFramework}
 
 Use este referencial para contextualizar sua análise e fazer conexões teóricas.
 ` : ""}
+Escreva a análise, as categorias e os temas em ${getPromptLanguage(language).name}. As citações devem ser transcritas literalmente, no idioma original.
 
 Responda em formato JSON com a seguinte estrutura:
 {
   "analysis": "Texto completo da análise de conteúdo baseada em Bardin",
   "categories": ["categoria1", "categoria2", ...],
   "themes": [{"name": "tema", "count": número de ocorrências}, ...],
-  "quotes": [{"text": "citação do texto original", "category": "categoria relacionada"}, ...]
+  "quotes": [{"text": "citação do texto original", "category": "categoria relacionada"${corpus ? ', "interview": número da entrevista' : ""}}, ...]${grid ? `,
+  "unclassified": [{"text": "unidade de registro do texto original", "reason": "por que não se encaixa em nenhuma categoria"${corpus ? ', "interview": número da entrevista' : ""}}, ...]` : ""}
 }`;
+}
+
+// Analysis responses are read leniently: a malformed entry is dropped and a missing or malformed
+// field falls back to empty, so one bad quote does not cost the whole analysis
+function lenientArray<T extends z.ZodTypeAny>(item: T) {
+  return z.array(z.unknown()).catch([]).transform((values) =>
+    values.flatMap((value): z.output<T>[] => {
+      const parsed = item.safeParse(value);
+      return parsed.success ? [parsed.data] : [];
+    })
+  );
+}
+
+// Interview number a quote cites in a corpus
+const modelInterviewSchema = z.coerce.number().int().positive().optional().catch(undefined);
+
+const modelThemeSchema = z.object({
+  name: z.string().trim().min(1),
+  count: z.coerce.number().int().nonnegative().catch(0),
+});
+
+const modelQuoteSchema = z.object({
+  text: z.string().trim().min(1),
+  category: z.string().trim().min(1),
+  interview: modelInterviewSchema,
+});
+
+const modelUnclassifiedSchema = z.object({
+  text: z.string().trim().min(1),
+  reason: z.string().trim().min(1).optional().catch(undefined),
+  interview: modelInterviewSchema,
+});
+
+// Categories come as {name, definition}, or as bare names
+const modelCategorySchema = z.preprocess(
+  (value) => (typeof value === "string" ? { name: value } : value),
+  z.object({
+    name: z.string().trim().min(1),
+    definition: z.string().trim().catch(""),
+  })
+);
+
+const bardinResponseSchema = z.object({
+  analysis: z.string().catch(""),
+  categories: lenientArray(z.string().trim().min(1)),
+  themes: lenientArray(modelThemeSchema),
+  quotes: lenientArray(modelQuoteSchema),
+  unclassified: lenientArray(modelUnclassifiedSchema),
+});
+
+const chunkCodingResponseSchema = bardinResponseSchema.extend({
+  summary: z.string().catch(""),
+  categories: lenientArray(modelCategorySchema),
+});
+
+const consolidationResponseSchema = z.object({
+  categories: lenientArray(modelCategorySchema),
+  categoryMap: z.record(z.string().trim().min(1).optional().catch(undefined)).catch({}),
+});
+
+type ModelQuote = z.infer<typeof modelQuoteSchema>;
+type ModelUnclassifiedUnit = z.infer<typeof modelUnclassifiedSchema>;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
+function parseModelResponse<T extends z.ZodTypeAny>(schema: T, content: string): z.output<T> {
+  const parsed = schema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Unexpected analysis response: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+// The model cites interviews by number; entries citing a number outside the corpus keep no source
+function attributeToDocument(interview: number | undefined, documents: CorpusDocument[]) {
+  const document = interview ? documents[interview - 1] : undefined;
+  return document ? { transcriptionId: document.transcriptionId, source: document.title } : {};
+}
+
+function attributeQuotes(quotes: ModelQuote[], documents: CorpusDocument[]): AnalysisQuote[] {
+  return quotes.map((q) => ({ text: q.text, category: q.category, ...attributeToDocument(q.interview, documents) }));
+}
+
+// Units the model left out of the grid; like quotes, they cite interviews by number in a corpus
+function attributeUnclassified(units: ModelUnclassifiedUnit[], documents: CorpusDocument[]): UnclassifiedUnit[] {
+  return units.map((u) => ({ text: u.text, reason: u.reason, ...attributeToDocument(u.interview, documents) }));
+}
+
+// The categories of a deductive analysis are the grid's, whatever the model answered. A unit placed
+// in a category outside the grid is reported as unclassified instead of being kept.
+function applyCategoryGrid(result: BardinResult, grid: GridCategory[]): BardinResult {
+  const gridNames = new Map(grid.map((c) => [c.name.trim().toLowerCase(), c.name]));
+  const quotes: AnalysisQuote[] = [];
+  const unclassified = [...(result.unclassified || [])];
+
+  for (const quote of result.quotes) {
+    const name = gridNames.get(quote.category.trim().toLowerCase());
+    if (name) {
+      quotes.push({ ...quote, category: name });
+    } else {
+      const { category, ...unit } = quote;
+      unclassified.push({ ...unit, reason: `Categoria fora da grade: ${category}` });
+    }
+  }
+
+  return { ...result, categories: grid.map((c) => c.name), quotes, unclassified };
+}
+
+// Without a grid the categories emerge from the material; with one the analysis is deductive
+export async function analyzeWithBardin(
+  transcriptionText: string,
+  theoreticalFramework?: string,
+  language?: string | null,
+  grid?: GridCategory[]
+): Promise<BardinResult> {
+  if (transcriptionText.length > ANALYSIS_CHUNK_CHARS) {
+    const chunks = splitTextIntoWindows(transcriptionText, ANALYSIS_CHUNK_CHARS);
+    return analyzeInChunks(chunks, [], theoreticalFramework, language, grid);
+  }
+
+  const content = await getChatModelProvider().completeJson(
+    [
+      { role: "system", content: buildBardinSystemPrompt(theoreticalFramework, language, false, grid) },
       { 
         role: "user", 
         content: `Realize uma análise de conteúdo qualitativa baseada em Bardin do seguinte texto transcrito de uma entrevista:\n\n${transcriptionText}` 
       }
     ],
-    response_format: { type: "json_object" },
-    max_tokens: 8192,
+    { purpose: "analysis", maxTokens: 8192 }
+  );
+
+  const { unclassified, ...result } = parseModelResponse(bardinResponseSchema, content);
+  const quotes = attributeQuotes(result.quotes, []);
+  return grid
+    ? applyCategoryGrid({ ...result, quotes, unclassified: attributeUnclassified(unclassified, []) }, grid)
+    : { ...result, quotes };
+}
+
+// Labels every interview with its number and packs them into batches that fit one prompt
+export function buildCorpusBatches(documents: CorpusDocument[], maxChars: number = ANALYSIS_CHUNK_CHARS): string[] {
+  const batches: string[] = [];
+  let current = "";
+
+  documents.forEach((document, i) => {
+    const header = `=== Entrevista ${i + 1}: ${document.title} ===`;
+    const parts = splitTextIntoWindows(document.text, maxChars - header.length - 16);
+    parts.forEach((part, p) => {
+      const piece = `${header}${p > 0 ? " (continuação)" : ""}\n${part}`;
+      if (current && current.length + piece.length + 2 > maxChars) {
+        batches.push(current);
+        current = "";
+      }
+      current += (current ? "\n\n" : "") + piece;
+    });
   });
 
-  const result = JSON.parse(response.choices[0].message.content || "{}");
+  if (current) batches.push(current);
+  return batches;
+}
+
+function mergeThemes(themes: { name: string; count: number }[]): { name: string; count: number }[] {
+  const merged = new Map<string, { name: string; count: number }>();
+  for (const theme of themes) {
+    const key = theme.name.trim().toLowerCase();
+    const existing = merged.get(key);
+    if (existing) {
+      existing.count += theme.count;
+    } else {
+      merged.set(key, { name: theme.name.trim(), count: theme.count });
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => b.count - a.count);
+}
+
+// Bardin analysis across several interviews. A corpus that fits one prompt is analysed in one call,
+// a larger one chunk by chunk like long text (see analyzeInChunks).
+export async function analyzeCorpusWithBardin(
+  documents: CorpusDocument[],
+  theoreticalFramework?: string,
+  language?: string | null,
+  grid?: GridCategory[]
+): Promise<BardinResult> {
+  const batches = buildCorpusBatches(documents);
+  if (batches.length > 1) {
+    return analyzeInChunks(batches, documents, theoreticalFramework, language, grid);
+  }
+
+  const content = await getChatModelProvider().completeJson(
+    [
+      { role: "system", content: buildBardinSystemPrompt(theoreticalFramework, language, true, grid) },
+      {
+        role: "user",
+        content: `Realize uma análise de conteúdo qualitativa baseada em Bardin do seguinte corpus de ${documents.length} entrevistas transcritas:\n\n${batches[0]}`
+      }
+    ],
+    { purpose: "analysis", maxTokens: 8192 }
+  );
+  const { unclassified, ...result } = parseModelResponse(bardinResponseSchema, content);
+  const quotes = attributeQuotes(result.quotes, documents);
+  return grid
+    ? applyCategoryGrid({ ...result, quotes, unclassified: attributeUnclassified(unclassified, documents) }, grid)
+    : { ...result, quotes };
+}
+
+type ProvisionalCategory = { name: string; definition: string };
+
+type ChunkCoding = {
+  summary: string;
+  categories: ProvisionalCategory[];
+  themes: { name: string; count: number }[];
+  quotes: AnalysisQuote[];
+  unclassified: UnclassifiedUnit[];
+};
+
+// Map-reduce over the three phases of Bardin for material too long for one call:
+// 1. each chunk gets a pre-analysis and is coded into provisional categories with their quotes
+// 2. the provisional categories of all chunks are consolidated into one category system
+// 3. a final call makes the inferences from the consolidated categories, frequencies and chunk notes
+// documents is empty for a single text; for a corpus, chunks carry "=== Entrevista N ===" headers.
+// A deductive analysis has its categories from the start, so step 2 is skipped.
+async function analyzeInChunks(
+  chunks: string[],
+  documents: CorpusDocument[],
+  theoreticalFramework?: string,
+  language?: string | null,
+  grid?: GridCategory[]
+): Promise<BardinResult> {
+  if (theoreticalFramework && theoreticalFramework.length > FRAMEWORK_PROMPT_CHARS) {
+    console.log("Condensing theoretical framework...");
+    theoreticalFramework = await condenseFramework(theoreticalFramework, language);
+  }
+
+  const codings: ChunkCoding[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    console.log(`Coding analysis chunk ${i + 1}/${chunks.length}...`);
+    codings.push(await codeChunk(chunks[i], i, chunks.length, documents, theoreticalFramework, language, grid));
+  }
+
+  let coded: BardinResult;
+  let categories: ProvisionalCategory[];
+  const themes = mergeThemes(codings.flatMap((c) => c.themes));
+  if (grid) {
+    categories = grid;
+    coded = applyCategoryGrid({
+      analysis: "",
+      categories: [],
+      themes,
+      quotes: codings.flatMap((c) => c.quotes),
+      unclassified: codings.flatMap((c) => c.unclassified),
+    }, grid);
+  } else {
+    console.log("Consolidating categories...");
+    const consolidated = await consolidateCategories(codings, language);
+    const finalCategory = (name: string) => consolidated.categoryMap[name] || name;
+
+    const quotes = codings.flatMap((c) => c.quotes.map((q) => ({ ...q, category: finalCategory(q.category) })));
+    const categoryNames = consolidated.categories.map((c) => c.name);
+    // Quotes whose category the consolidation missed still need their category listed
+    for (const quote of quotes) {
+      if (!categoryNames.includes(quote.category)) categoryNames.push(quote.category);
+    }
+    categories = consolidated.categories;
+    coded = { analysis: "", categories: categoryNames, themes, quotes };
+  }
+
+  console.log("Writing final inference...");
+  const analysis = await inferFromCoding(
+    categories,
+    coded.quotes,
+    themes,
+    codings.map((c) => c.summary),
+    documents.length,
+    theoreticalFramework,
+    language,
+    grid ? coded.unclassified : undefined
+  );
+
+  return { ...coded, analysis };
+}
+
+// Keeps the concepts, authors and definitions of a long framework; each window gets an equal share
+// of FRAMEWORK_PROMPT_CHARS, and the joined notes are cut to it in case the model writes too much
+async function condenseFramework(theoreticalFramework: string, language?: string | null): Promise<string> {
+  const windows = splitTextIntoWindows(theoreticalFramework, ANALYSIS_CHUNK_CHARS);
+  const maxChars = Math.floor(FRAMEWORK_PROMPT_CHARS / windows.length);
+  const notes: string[] = [];
+
+  for (const window of windows) {
+    const content = await getChatModelProvider().completeJson(
+      [
+        {
+          role: "system",
+          content: `Você prepara o referencial teórico de uma pesquisa para uma análise de conteúdo segundo Laurence Bardin. Condense o trecho recebido em no máximo ${maxChars} caracteres, mantendo os conceitos centrais, suas definições, os autores citados e as hipóteses ou dimensões que possam orientar a categorização. Não acrescente nada que não esteja no texto.
+
+Escreva em ${getPromptLanguage(language).name}.
+
+Responda em JSON com o formato:
+{
+  "summary": "referencial condensado"
+}`
+        },
+        { role: "user", content: window }
+      ],
+      { purpose: "fast", maxTokens: 4096 }
+    );
+
+    notes.push(parseModelResponse(z.object({ summary: z.string().catch("") }), content).summary.trim());
+  }
 
+  return notes.filter(Boolean).join("\n\n").slice(0, FRAMEWORK_PROMPT_CHARS);
+}
+
+async function codeChunk(
+  chunk: string,
+  index: number,
+  total: number,
+  documents: CorpusDocument[],
+  theoreticalFramework?: string,
+  language?: string | null,
+  grid?: GridCategory[]
+): Promise<ChunkCoding> {
+  const corpus = documents.length > 0;
+  const content = await getChatModelProvider().completeJson(
+    [
+      {
+        role: "system",
+        content: `Você é um especialista em análise de conteúdo segundo Laurence Bardin. O material a analisar é longo e foi dividido em ${total} partes; você recebe a parte ${index + 1}. Realize nela a pré-análise e a exploração do material:
+
+- Faça a leitura flutuante e resuma em poucas frases o conteúdo da parte (pré-análise)
+${grid
+  ? "- Identifique as unidades de registro e classifique-as nas categorias da grade abaixo"
+  : "- Identifique as unidades de registro e codifique-as em categorias temáticas provisórias, cada uma com uma definição operacional curta"}
+- Conte a frequência dos temas
+- Extraia citações literais que exemplifiquem cada categoria
+${grid ? `
+${describeCategoryGrid(grid)}
+` : ""}${corpus ? `
+O material é um corpus de entrevistas; cada trecho é precedido por um cabeçalho "=== Entrevista N: título ===". Indique em cada citação o número da entrevista de onde ela vem.
+` : ""}${theoreticalFramework ? `
+**Referencial Teórico fornecido pelo pesquisador:**
+${theoreticalFramework}
+` : ""}
+Não escreva ainda a interpretação final: ela será feita depois, com as categorias de todas as partes.
+Escreva o resumo, as categorias e os temas em ${getPromptLanguage(language).name}. As citações devem ser transcritas literalmente, no idioma original.
+
+Responda em JSON com o formato:
+{
+  "summary": "resumo da parte",${grid ? "" : `
+  "categories": [{"name": "categoria", "definition": "definição operacional"}, ...],`}
+  "themes": [{"name": "tema", "count": número de ocorrências}, ...],
+  "quotes": [{"text": "citação do texto original", "category": "categoria relacionada"${corpus ? ', "interview": número da entrevista' : ""}}, ...]${grid ? `,
+  "unclassified": [{"text": "unidade de registro do texto original", "reason": "por que não se encaixa em nenhuma categoria"${corpus ? ', "interview": número da entrevista' : ""}}, ...]` : ""}
+}`
+      },
+      { role: "user", content: chunk }
+    ],
+    { purpose: "analysis", maxTokens: 8192 }
+  );
+
+  const result = parseModelResponse(chunkCodingResponseSchema, content);
   return {
-    analysis: result.analysis || "",
-    categories: result.categories || [],
-    themes: result.themes || [],
-    quotes: result.quotes || [],
+    summary: result.summary,
+    categories: result.categories,
+    themes: result.themes,
+    quotes: attributeQuotes(result.quotes, documents),
+    unclassified: grid ? attributeUnclassified(result.unclassified, documents) : [],
   };
 }
+
+async function consolidateCategories(
+  codings: ChunkCoding[],
+  language?: string | null
+): Promise<{ categories: ProvisionalCategory[]; categoryMap: Record<string, string> }> {
+  const provisional = codings.map((coding, i) => `### Parte ${i + 1}
+${coding.categories.map((c) => `- ${c.name}${c.definition ? `: ${c.definition}` : ""} (${coding.quotes.filter((q) => q.category === c.name).length} citações)`).join("\n")}`).join("\n\n");
+
+  const content = await getChatModelProvider().completeJson(
+    [
+      {
+        role: "system",
+        content: `Você é um especialista em análise de conteúdo segundo Laurence Bardin. O material foi codificado em ${codings.length} partes, cada uma com suas categorias provisórias.
+
+Consolide as categorias em um único sistema de categorias, respeitando as regras de Bardin (exclusão mútua, homogeneidade, pertinência, objetividade e produtividade):
+- Una categorias equivalentes de partes diferentes sob um único nome
+- Mantenha separadas as categorias distintas
+- Dê a cada categoria final uma definição operacional
+
+Escreva em ${getPromptLanguage(language).name}.
+
+Responda em JSON com o formato:
+{
+  "categories": [{"name": "categoria final", "definition": "definição operacional"}, ...],
+  "categoryMap": {"categoria provisória": "categoria final", ...}
+}
+O "categoryMap" deve conter todas as categorias provisórias.`
+      },
+      { role: "user", content: provisional }
+    ],
+    { purpose: "analysis", maxTokens: 8192 }
+  );
+
+  const result = parseModelResponse(consolidationResponseSchema, content);
+  const categoryMap: Record<string, string> = {};
+  for (const [from, to] of Object.entries(result.categoryMap)) {
+    if (to) categoryMap[from.trim()] = to;
+  }
+
+  return { categories: result.categories, categoryMap };
+}
+
+async function inferFromCoding(
+  categories: ProvisionalCategory[],
+  quotes: AnalysisQuote[],
+  themes: { name: string; count: number }[],
+  summaries: string[],
+  interviewCount: number,
+  theoreticalFramework?: string,
+  language?: string | null,
+  unclassified?: UnclassifiedUnit[]
+): Promise<string> {
+  // Only deductive analyses report unclassified units
+  const deductive = unclassified !== undefined;
+  const categoryLines = categories.map((category) => {
+    const categoryQuotes = quotes.filter((q) => q.category === category.name);
+    const examples = categoryQuotes
+      .slice(0, INFERENCE_QUOTES_PER_CATEGORY)
+      .map((q) => `  > "${q.text}"${q.source ? ` (${q.source})` : ""}`)
+      .join("\n");
+    return `- ${category.name} (${categoryQuotes.length} citações): ${category.definition}${examples ? `\n${examples}` : ""}`;
+  }).join("\n");
+
+  const material = `## Pré-análise por parte
+${summaries.map((summary, i) => `Parte ${i + 1}: ${summary}`).join("\n")}
+
+## ${deductive ? "Categorias da grade definida pelo pesquisador" : "Categorias consolidadas"}
+${categoryLines}
+${deductive ? `
+## Unidades não classificadas (${unclassified.length})
+${unclassified.slice(0, INFERENCE_QUOTES_PER_CATEGORY * 3).map((u) => `- "${u.text}"${u.reason ? `: ${u.reason}` : ""}`).join("\n")}
+` : ""}
+## Frequência de temas
+${themes.map((t) => `- ${t.name}: ${t.count}`).join("\n")}`;
+
+  const content = await getChatModelProvider().completeJson(
+    [
+      {
+        role: "system",
+        content: `Você é um especialista em análise de conteúdo segundo Laurence Bardin. A pré-análise e a exploração do material ${interviewCount > 1 ? `(um corpus de ${interviewCount} entrevistas) ` : ""}já foram feitas; você recebe o resumo de cada parte, as categorias consolidadas com exemplos e a frequência dos temas.
+
+Realize o tratamento dos resultados: escreva a análise de conteúdo completa, com inferências e interpretação fundamentadas nas categorias e frequências${interviewCount > 1 ? ", comparando as entrevistas e apontando convergências e divergências entre os participantes" : ""}.
+${deductive ? "A análise é dedutiva: as categorias foram definidas de antemão pelo pesquisador. Discuta como o material se distribui na grade e o que as unidades não classificadas indicam sobre os limites da grade.\n" : ""}${theoreticalFramework ? `
+**Referencial Teórico fornecido pelo pesquisador:**
+${theoreticalFramework}
+
+Use este referencial para contextualizar sua análise e fazer conexões teóricas.
+` : ""}
+Escreva em ${getPromptLanguage(language).name}.
+
+Responda em JSON com o formato:
+{
+  "analysis": "Texto completo da análise de conteúdo baseada em Bardin"
+}`
+      },
+      { role: "user", content: material }
+    ],
+    { purpose: "analysis", maxTokens: 8192 }
+  );
+
+  return parseModelResponse(z.object({ analysis: z.string().catch("") }), content).analysis;
+}
@@ -0,0 +1,205 @@
+import type { AnalysisQuote, TranscriptionSegment } from "@shared/schema";
+
+// Text the quotes of an analysis are looked up in: one interview of the corpus, or the external text
+export type QuoteSourceText = {
+  transcriptionId?: number;
+  title?: string;
+  text: string;
+  segments?: TranscriptionSegment[] | null;
+};
+
+// How the model marks a cut in a shortened quote: "...", "…", "[...]" or "(...)"
+const ELLIPSIS = /\s*(?:\[\s*(?:\.{3,}|…)\s*\]|\(\s*(?:\.{3,}|…)\s*\)|\.{3,}|…)\s*/;
+
+// The parts of a shortened quote must appear in order, at most this many normalised characters apart
+// (a few sentences), and each must be at least MIN_FRAGMENT_WORDS long: short common words found far
+// apart would let a made-up quote pass
+const MAX_FRAGMENT_GAP = 300;
+const MIN_FRAGMENT_WORDS = 3;
+
+const LETTER_OR_DIGIT = new RegExp("[\\p{L}\\p{N}]", "u");
+const COMBINING_MARK = new RegExp("\\p{M}", "gu");
+
+// Text reduced to lowercase unaccented words separated by single spaces, so a quote still matches when
+// the model changed punctuation, quotation marks, case, accents or line breaks. For each normalised
+// character, the part it came from and its range in that part's original text.
+type NormalizedText = {
+  text: string;
+  part: number[];
+  start: number[];
+  end: number[];
+};
+
+function normalizeParts(parts: string[]): NormalizedText {
+  const chars: string[] = [];
+  const part: number[] = [];
+  const start: number[] = [];
+  const end: number[] = [];
+  const push = (ch: string, p: number, from: number, to: number) => {
+    chars.push(ch);
+    part.push(p);
+    start.push(from);
+    end.push(to);
+  };
+
+  parts.forEach((text, p) => {
+    let offset = 0;
+    for (const ch of text) {
+      const base = ch.toLowerCase().normalize("NFD").replace(COMBINING_MARK, "");
+      if (LETTER_OR_DIGIT.test(base)) {
+        for (const c of base) push(c, p, offset, offset + ch.length);
+      } else if (chars.length > 0 && chars[chars.length - 1] !== " ") {
+        push(" ", p, offset, offset + ch.length);
+      }
+      offset += ch.length;
+    }
+    // Words never run on from one part into the next
+    if (chars.length > 0 && chars[chars.length - 1] !== " ") {
+      push(" ", p, text.length, text.length);
+    }
+  });
+
+  if (chars[chars.length - 1] === " ") {
+    chars.pop();
+    part.pop();
+    start.pop();
+    end.pop();
+  }
+  return { text: chars.join(""), part, start, end };
+}
+
+// Normalised parts of a quote; none when a shortened quote has a part too short to be checked
+function normalizeQuote(quote: string): string[] {
+  const fragments = quote
+    .split(ELLIPSIS)
+    .map((fragment) => normalizeParts([fragment]).text)
+    .filter(Boolean);
+  if (fragments.length > 1 && fragments.some((fragment) => fragment.split(" ").length < MIN_FRAGMENT_WORDS)) {
+    return [];
+  }
+  return fragments;
+}
+
+// Next occurrence of needle that starts and ends on word boundaries
+function indexOfWords(haystack: string, needle: string, from: number): number {
+  let at = haystack.indexOf(needle, from);
+  while (at !== -1) {
+    const end = at + needle.length;
+    if ((at === 0 || haystack[at - 1] === " ") && (end === haystack.length || haystack[end] === " ")) {
+      return at;
+    }
+    at = haystack.indexOf(needle, at + 1);
+  }
+  return -1;
+}
+
+// Range [start, end) of the normalised text covering all fragments in order
+function findFragments(haystack: string, fragments: string[]): { start: number; end: number } | undefined {
+  let first = indexOfWords(haystack, fragments[0], 0);
+  while (first !== -1) {
+    let end = first + fragments[0].length;
+    let found = true;
+    for (const fragment of fragments.slice(1)) {
+      const at = indexOfWords(haystack, fragment, end);
+      if (at === -1 || at - end > MAX_FRAGMENT_GAP) {
+        found = false;
+        break;
+      }
+      end = at + fragment.length;
+    }
+    if (found) return { start: first, end };
+    first = indexOfWords(haystack, fragments[0], first + 1);
+  }
+  return undefined;
+}
+
+// Range of a verbatim (or shortened) quote in text, tolerant of the differences normalisation removes
+export function findPassage(text: string, quote: string): { start: number; end: number } | undefined {
+  const fragments = normalizeQuote(quote);
+  if (fragments.length === 0) return undefined;
+  const normalized = normalizeParts([text]);
+  const match = findFragments(normalized.text, fragments);
+  if (!match) return undefined;
+  return { start: normalized.start[match.start], end: normalized.end[match.end - 1] };
+}
+
+type IndexedSource = {
+  source: QuoteSourceText;
+  text: NormalizedText;
+  segments?: NormalizedText;
+};
+
+// Where a quote (or a deductive analysis' unclassified unit) occurs in the analysed material
+type QuoteLocation = Partial<Omit<AnalysisQuote, "text" | "category">>;
+
+function locateIn(indexed: IndexedSource, fragments: string[]): QuoteLocation | undefined {
+  const match = findFragments(indexed.text.text, fragments);
+  if (!match) return undefined;
+
+  const { source, text } = indexed;
+  const location: QuoteLocation = {
+    offsetStart: text.start[match.start],
+    offsetEnd: text.end[match.end - 1],
+  };
+  if (source.transcriptionId !== undefined) {
+    location.transcriptionId = source.transcriptionId;
+    location.source = source.title;
+  }
+
+  // The transcription text is not always the segments joined, so the quote is looked up in them separately
+  const segments = source.segments;
+  if (indexed.segments && segments) {
+    const segmentMatch = findFragments(indexed.segments.text, fragments);
+    if (segmentMatch) {
+      const index = indexed.segments.part[segmentMatch.start];
+      const endsInSameSegment = indexed.segments.part[segmentMatch.end - 1] === index;
+      location.segmentIndex = index;
+      location.segmentOffsetStart = indexed.segments.start[segmentMatch.start];
+      location.segmentOffsetEnd = endsInSameSegment
+        ? indexed.segments.end[segmentMatch.end - 1]
+        : segments[index].text.length;
+      location.timestamp = segments[index].start;
+    }
+  }
+  return location;
+}
+
+// Checks each quote against the analysed text and records where it occurs. A quote the model
+// attributed to the wrong interview is moved to the one it occurs in; a quote found in none of them
+// was not taken from the material and is discarded.
+export function locateQuotes<T extends Omit<AnalysisQuote, "category">>(
+  quotes: T[],
+  sources: QuoteSourceText[]
+): { quotes: T[]; rejected: number } {
+  const indexed: IndexedSource[] = sources.map((source) => ({
+    source,
+    text: normalizeParts([source.text]),
+    segments: source.segments?.length ? normalizeParts(source.segments.map((s) => s.text)) : undefined,
+  }));
+
+  const located: T[] = [];
+  let rejected = 0;
+  for (const quote of quotes) {
+    const fragments = normalizeQuote(quote.text);
+    // The attributed interview is searched first
+    const candidates = [
+      ...indexed.filter((s) => s.source.transcriptionId === quote.transcriptionId),
+      ...indexed.filter((s) => s.source.transcriptionId !== quote.transcriptionId),
+    ];
+
+    let location: QuoteLocation | undefined;
+    if (fragments.length > 0) {
+      for (const candidate of candidates) {
+        location = locateIn(candidate, fragments);
+        if (location) break;
+      }
+    }
+
+    if (location) {
+      located.push({ ...quote, ...location });
+    } else {
+      rejected++;
+    }
+  }
+  return { quotes: located, rejected };
+}
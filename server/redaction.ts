@@ -0,0 +1,169 @@
+import { detectSensitiveEntities } from "./openai";
+import { PSEUDONYM_PREFIXES, nextPseudonymNumber } from "@shared/schema";
+import type {
+  RedactionEntityType,
+  RedactionProposal,
+  Transcription,
+  TranscriptionRedaction,
+  TranscriptionSegment,
+} from "@shared/schema";
+
+// Spoken numbers are often transcribed with spaces instead of the usual punctuation
+const CPF_PATTERN = /\b\d{3}[.\s]?\d{3}[.\s]?\d{3}[-\s]?\d{2}\b/g;
+// A phone needs a DDD in parentheses or a +55 prefix, or else must be a mobile written with a separator
+// ("98765-4321"); bare runs of eight digits are more often years, case numbers or other ids
+const PHONE_PATTERN = /(?:(?:\+55\s?)?\(\d{2}\)\s?|\+55\s?\d{2}\s?)9?\d{4}[-\s]?\d{4}\b|\b9\d{4}[-\s]\d{4}\b/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+type Detection = {
+  type: RedactionEntityType;
+  original: string;
+  source: "pattern" | "model";
+};
+
+function isValidCpf(digits: string): boolean {
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+  const checkDigit = (length: number) => {
+    let total = 0;
+    for (let i = 0; i < length; i++) {
+      total += parseInt(digits[i]) * (length + 1 - i);
+    }
+    const rest = (total * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === parseInt(digits[9]) && checkDigit(10) === parseInt(digits[10]);
+}
+
+// Regex detectors; a span claimed by one detector is not reported again by the next
+export function detectPatterns(text: string): Detection[] {
+  const found: { start: number; end: number; detection: Detection }[] = [];
+
+  const scan = (pattern: RegExp, type: RedactionEntityType, accept: (match: string) => boolean = () => true) => {
+    Array.from(text.matchAll(pattern)).forEach((match) => {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const original = match[0].trim();
+      if (!accept(original) || found.some((f) => start < f.end && end > f.start)) return;
+      found.push({ start, end, detection: { type, original, source: "pattern" } });
+    });
+  };
+
+  scan(EMAIL_PATTERN, "email");
+  scan(CPF_PATTERN, "cpf", (match) => isValidCpf(match.replace(/\D/g, "")));
+  scan(PHONE_PATTERN, "phone");
+
+  return found.map((f) => f.detection);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Letter-aware edges, so "José" matches before punctuation but "Ana" never matches inside "Anabela"
+function occurrencePattern(original: string): RegExp {
+  const body = escapeRegExp(original.trim()).replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+export function countOccurrences(text: string, original: string): number {
+  return (text.match(occurrencePattern(original)) || []).length;
+}
+
+export function applyRedactions(text: string, proposals: RedactionProposal[]): string {
+  // Longest first, so "Maria da Silva" is replaced as a whole before "Maria"
+  return proposals
+    .filter((p) => p.accepted)
+    .sort((a, b) => b.original.length - a.original.length)
+    .reduce((result, p) => result.replace(occurrencePattern(p.original), () => p.replacement), text);
+}
+
+export function redactSegments(segments: TranscriptionSegment[], proposals: RedactionProposal[]): TranscriptionSegment[] {
+  return segments.map((segment) => ({
+    ...segment,
+    text: applyRedactions(segment.text, proposals),
+    // Speakers renamed to real names must not leak either
+    speaker: segment.speaker ? applyRedactions(segment.speaker, proposals) : segment.speaker,
+  }));
+}
+
+function proposalKey(original: string): string {
+  return original.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Merges detections into one proposal per distinct term with a numbered pseudonym per type.
+// Proposals from an earlier review are kept as they were, so pseudonyms stay stable.
+function buildProposals(text: string, detections: Detection[], previous: RedactionProposal[]): RedactionProposal[] {
+  const proposals = new Map<string, RedactionProposal>();
+
+  for (const p of previous) {
+    proposals.set(proposalKey(p.original), { ...p, occurrences: countOccurrences(text, p.original) });
+  }
+
+  for (const d of detections) {
+    const key = proposalKey(d.original);
+    if (proposals.has(key)) continue;
+    const occurrences = countOccurrences(text, d.original);
+    if (occurrences === 0) continue; // the model paraphrased instead of copying
+    const number = nextPseudonymNumber(d.type, Array.from(proposals.values()));
+    proposals.set(key, {
+      id: `${d.type}-${number}`,
+      type: d.type,
+      original: d.original,
+      replacement: `[${PSEUDONYM_PREFIXES[d.type]} ${number}]`,
+      occurrences,
+      source: d.source,
+      accepted: true,
+    });
+  }
+
+  // Reviewed in reading order
+  const firstIndex = (p: RedactionProposal) => {
+    const index = text.search(occurrencePattern(p.original));
+    return index === -1 ? Infinity : index;
+  };
+  return Array.from(proposals.values()).sort((a, b) => firstIndex(a) - firstIndex(b));
+}
+
+export async function detectRedactions(transcription: Transcription): Promise<RedactionProposal[]> {
+  const text = transcription.transcriptionText || "";
+  const language = transcription.detectedLanguage ||
+    (transcription.language !== "auto" ? transcription.language : "pt");
+
+  const entities = await detectSensitiveEntities(text, language);
+  const detections: Detection[] = [
+    ...detectPatterns(text),
+    ...entities.map((e) => ({ type: e.type, original: e.text, source: "model" as const })),
+  ];
+
+  return buildProposals(text, detections, transcription.redaction?.proposals || []);
+}
+
+// Builds the anonymised version from the reviewed proposals
+export function buildRedactedVersion(transcription: Transcription, proposals: RedactionProposal[]): TranscriptionRedaction {
+  const text = transcription.transcriptionText || "";
+  return {
+    status: "applied",
+    proposals: proposals.map((p) => ({ ...p, occurrences: countOccurrences(text, p.original) })),
+    redactedText: applyRedactions(text, proposals),
+    redactedSegments: redactSegments(transcription.segments || [], proposals),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// The anonymised version was built from the transcript as it was, and may miss personal data added since,
+// so after any content change it is flagged until the proposals are saved again
+export function markRedactionStale(redaction: TranscriptionRedaction): TranscriptionRedaction {
+  return { ...redaction, stale: true };
+}
+
+// The transcription as it should appear in exports of the anonymised version
+export function getRedactedView(transcription: Transcription): Transcription {
+  const redaction = transcription.redaction!;
+  return {
+    ...transcription,
+    title: applyRedactions(transcription.title, redaction.proposals),
+    originalFileName: applyRedactions(transcription.originalFileName, redaction.proposals),
+    transcriptionText: redaction.redactedText || "",
+    segments: redaction.redactedSegments || [],
+  };
+}
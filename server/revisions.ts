@@ -0,0 +1,131 @@
+import { storage } from "./storage";
+import type {
+  Transcription,
+  TranscriptionRevision,
+  TranscriptionRevisionSummary,
+  RevisionDiffChange,
+} from "@shared/schema";
+
+// Above this many LCS cells the changed middle is shown as one replacement instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type RevisionSource = "transcription" | "edit" | "restore";
+
+function sameContent(revision: TranscriptionRevision, transcription: Transcription): boolean {
+  return revision.title === transcription.title &&
+    revision.transcriptionText === transcription.transcriptionText &&
+    JSON.stringify(revision.segments) === JSON.stringify(transcription.segments) &&
+    JSON.stringify(revision.speakers) === JSON.stringify(transcription.speakers);
+}
+
+// Snapshots the transcription's current content; a save that changed nothing is not recorded again
+export async function recordRevision(
+  transcription: Transcription,
+  source: RevisionSource,
+  restoredFromId?: number,
+): Promise<TranscriptionRevision | undefined> {
+  const [latest] = await storage.getTranscriptionRevisions(transcription.id);
+  if (latest && source !== "transcription" && sameContent(latest, transcription)) return undefined;
+
+  return storage.createTranscriptionRevision({
+    transcriptionId: transcription.id,
+    userId: transcription.userId,
+    source,
+    restoredFromId: restoredFromId ?? null,
+    title: transcription.title,
+    transcriptionText: transcription.transcriptionText,
+    segments: transcription.segments,
+    speakers: transcription.speakers,
+    wordCount: transcription.wordCount,
+  });
+}
+
+// Transcriptions completed before revisions existed get their pre-edit content saved
+// as the original before the first edit overwrites it
+export async function ensureOriginalRevision(transcription: Transcription): Promise<void> {
+  if (!transcription.transcriptionText) return;
+  const revisions = await storage.getTranscriptionRevisions(transcription.id);
+  if (revisions.length === 0) {
+    await recordRevision(transcription, "transcription");
+  }
+}
+
+export function summarizeRevision(revision: TranscriptionRevision): TranscriptionRevisionSummary {
+  const { transcriptionText, segments, speakers, ...summary } = revision;
+  return summary;
+}
+
+function pushChange(changes: RevisionDiffChange[], type: RevisionDiffChange["type"], text: string) {
+  if (!text) return;
+  const last = changes[changes.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    changes.push({ type, text });
+  }
+}
+
+// Word-level diff (whitespace is kept as its own token so the texts can be rebuilt exactly).
+// Edits are usually small, so the common prefix and suffix are trimmed before the LCS table.
+export function diffWords(before: string, after: string): RevisionDiffChange[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const changes: RevisionDiffChange[] = [];
+  pushChange(changes, "equal", a.slice(0, prefix).join(""));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    pushChange(changes, "delete", midA.join(""));
+    pushChange(changes, "insert", midB.join(""));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushChange(changes, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushChange(changes, "delete", midA[i++]);
+      } else {
+        pushChange(changes, "insert", midB[j++]);
+      }
+    }
+    pushChange(changes, "delete", midA.slice(i).join(""));
+    pushChange(changes, "insert", midB.slice(j).join(""));
+  }
+
+  pushChange(changes, "equal", a.slice(a.length - suffix).join(""));
+  return changes;
+}
+
+export function countChangedWords(changes: RevisionDiffChange[], type: "insert" | "delete"): number {
+  return changes
+    .filter((c) => c.type === type)
+    .reduce((total, c) => total + c.text.split(/\s+/).filter(Boolean).length, 0);
+}
@@ -2,14 +2,43 @@ import type { Express, Request, Response, NextFunction } from "express";
 import type { Server } from "http";
 import multer from "multer";
 import fs from "fs";
+import { pipeline } from "stream";
 import { z } from "zod";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { transcribeAudio, analyzeWithBardin, prepareAudioChunks, transcribeSingleChunk, cleanupChunks } from "./openai";
-import type { TranscriptionChunkProgress, TranscriptionSegment } from "@shared/schema";
+import { analyzeWithBardin, analyzeCorpusWithBardin, type CorpusDocument } from "./openai";
+import { enqueueTranscription, requeueTranscriptionJob } from "./transcriptionQueue";
+import type { Code, GridCategory, Transcription, TranscriptionChunkProgress, TranscriptionSegment, TranscriptionSpeaker } from "@shared/schema";
 import { stripeService } from "./stripeService";
 import { getStripePublishableKey } from "./stripeClient";
-import { ADMIN_EMAIL, calculateAnalysisCredits, FREE_PLAN_LIMITS } from "@shared/schema";
+import { buildTranscriptionDocx, buildSrt, buildVtt, buildAnalysisPdf } from "./exports";
+import { getMediaStorage } from "./mediaStorage";
+import { detectRedactions, buildRedactedVersion, getRedactedView, markRedactionStale } from "./redaction";
+import { extractDocumentText, estimatePages, DOCUMENT_MIME_TYPES, DOCUMENT_EXTENSIONS } from "./documents";
+import { locateQuotes, type QuoteSourceText } from "./quotes";
+import { suggestCodings, reanchorCodings } from "./coding";
+import { recordRevision, ensureOriginalRevision, summarizeRevision, diffWords, countChangedWords } from "./revisions";
+import {
+  ADMIN_EMAIL,
+  calculateAnalysisCredits,
+  FREE_PLAN_LIMITS,
+  TRANSCRIPTION_LANGUAGES,
+  transcriptionSegmentSchema,
+  transcriptionSpeakerSchema,
+  redactionProposalSchema,
+  CODING_STATUSES,
+  ANALYSIS_MODES,
+  categoryGridSchema,
+} from "@shared/schema";
+
+// Interviews one analysis can take; larger corpora are analysed in several prompts
+const MAX_ANALYSIS_TRANSCRIPTIONS = 50;
+
+// Media types the stored upload may be served as
+const MEDIA_MIME_TYPE = /^(audio|video)\/[a-z0-9.+-]+$/;
+
+// Languages an analysis of external text can be written in
+const ANALYSIS_LANGUAGES = ["pt", "es", "en"];
 
 const upload = multer({
   dest: "/tmp/uploads/",
@@ -22,10 +51,8 @@ const upload = multer({
       file.mimetype === "application/octet-stream" || // Some files come as generic binary
       file.mimetype === "application/ogg"; // OGG files often have this MIME type
     
-    // Also accept PDF and text for analysis
-    const isDocument = 
-      file.mimetype === "application/pdf" || 
-      file.mimetype === "text/plain";
+    // Also accept documents (PDF, DOCX, ODT, RTF, TXT) for analysis
+    const isDocument = DOCUMENT_MIME_TYPES.includes(file.mimetype);
     
     // Check file extension as fallback for unknown MIME types
     const audioVideoExtensions = [
@@ -36,8 +63,9 @@ const upload = multer({
     ];
     const ext = "." + (file.originalname.split(".").pop()?.toLowerCase() || "");
     const hasAudioVideoExtension = audioVideoExtensions.includes(ext);
+    const hasDocumentExtension = DOCUMENT_EXTENSIONS.includes(ext);
     
-    if (isAudioOrVideo || isDocument || hasAudioVideoExtension) {
+    if (isAudioOrVideo || isDocument || hasAudioVideoExtension || hasDocumentExtension) {
       cb(null, true);
     } else {
       cb(new Error("Formato de arquivo não suportado. Envie um arquivo de áudio ou vídeo."));
@@ -114,6 +142,25 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Full-text search over the user's transcripts (?q=<terms>)
+  app.get("/api/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      if (query.length > 200) {
+        return res.status(400).json({ message: "Search query is too long" });
+      }
+
+      const hits = await storage.searchTranscriptions(req.user.claims.sub, query);
+      res.json(hits);
+    } catch (error) {
+      console.error("Error searching transcriptions:", error);
+      res.status(500).json({ message: "Failed to search transcriptions" });
+    }
+  });
+
   app.get("/api/transcriptions/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -147,6 +194,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const title = req.body.title || file.originalname;
       const fileSize = file.size;
 
+      const language = req.body.language || "pt";
+      if (!TRANSCRIPTION_LANGUAGES.some((l) => l.code === language)) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ message: "Idioma não suportado" });
+      }
+
       // Check if user can transcribe
       const canUseFreeTrial = !user.freeTranscriptionUsed;
       const hasCredits = (user.credits || 0) > 0;
@@ -164,21 +217,36 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         });
       }
 
+      const projectId = await resolveProjectId(req.body.projectId, userId);
+      if (projectId === false) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ message: "Invalid project" });
+      }
+
       // Premium quality uses WAV for paying users
       const isPremiumQuality = hasCredits && !canUseFreeTrial;
 
       // Create transcription record
       const transcription = await storage.createTranscription({
         userId,
+        projectId: projectId ?? null,
         title,
         originalFileName: file.originalname,
         fileSize,
         status: "preparing",
         isPremiumQuality,
+        language,
       });
 
-      // Process transcription asynchronously with premium or standard quality
-      processTranscriptionProgressive(transcription.id, file.path, userId, canUseFreeTrial, isPremiumQuality);
+      // Queue transcription for the background worker with premium or standard quality
+      await enqueueTranscription({
+        transcriptionId: transcription.id,
+        userId,
+        filePath: file.path,
+        mimeType: file.mimetype,
+        useFreeCredit: canUseFreeTrial,
+        isPremiumQuality,
+      });
 
       res.json(transcription);
     } catch (error) {
@@ -187,31 +255,140 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Retry every chunk that failed after the automatic retries, so one re-run covers them all
+  app.post("/api/transcriptions/:id/chunks/retry", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const chunkProgress = (transcription.chunkProgress || []) as TranscriptionChunkProgress[];
+      if (!chunkProgress.some((c) => c.status === "error")) {
+        return res.status(400).json({ message: "No chunk is in an error state" });
+      }
+
+      const job = await storage.getLatestTranscriptionJob(id);
+      if (!job || job.status === "pending" || job.status === "running") {
+        return res.status(409).json({ message: "Transcription is already being processed" });
+      }
+      if (!fs.existsSync(job.filePath)) {
+        return res.status(410).json({ message: "O arquivo original não está mais disponível. Envie o arquivo novamente." });
+      }
+
+      // The job is not running, so the progress can be rewritten as a whole
+      const updated = await storage.updateTranscription(id, {
+        status: "processing",
+        chunkProgress: chunkProgress.map((c) =>
+          c.status === "error" ? { ...c, status: "pending" as const, error: undefined } : c
+        ),
+      });
+      await requeueTranscriptionJob(job.id);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error retrying transcription chunks:", error);
+      res.status(500).json({ message: "Failed to retry chunks" });
+    }
+  });
+
+  // Streams the original media with HTTP range support so the player can seek
+  app.get("/api/transcriptions/:id/media", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const media = getMediaStorage();
+      const size = transcription.mediaKey ? await media.size(transcription.mediaKey) : null;
+      if (!transcription.mediaKey || size === null) {
+        return res.status(404).json({ message: "Media not available" });
+      }
+
+      res.setHeader("Content-Type", mediaContentType(transcription.mediaMimeType));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Accept-Ranges", "bytes");
+      res.setHeader("Cache-Control", "private, no-store");
+
+      const range = req.headers.range as string | undefined;
+      if (!range) {
+        res.setHeader("Content-Length", size);
+        return sendMediaStream(media.createReadStream(transcription.mediaKey), res);
+      }
+
+      // Only single ranges are served: "bytes=start-end", "bytes=start-" or "bytes=-suffix"
+      const match = /^bytes=(\d*)-(\d*)$/.exec(range);
+      let start = match && match[1] ? parseInt(match[1]) : NaN;
+      let end = match && match[2] ? parseInt(match[2]) : size - 1;
+      if (match && !match[1] && match[2]) {
+        start = Math.max(0, size - parseInt(match[2]));
+        end = size - 1;
+      }
+      if (isNaN(start) || start > end || start >= size) {
+        res.setHeader("Content-Range", `bytes */${size}`);
+        return res.status(416).end();
+      }
+      end = Math.min(end, size - 1);
+
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+      res.setHeader("Content-Length", end - start + 1);
+      sendMediaStream(media.createReadStream(transcription.mediaKey, { start, end }), res);
+    } catch (error) {
+      console.error("Error streaming transcription media:", error);
+      res.status(500).json({ message: "Failed to stream media" });
+    }
+  });
+
   app.get("/api/transcriptions/:id/download", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const format = req.query.format || "txt";
-      const transcription = await storage.getTranscription(id);
+      const original = await storage.getTranscription(id);
       
-      if (!transcription || transcription.userId !== req.user.claims.sub) {
+      if (!original || original.userId !== req.user.claims.sub) {
         return res.status(404).json({ message: "Transcription not found" });
       }
 
+      // ?version=redacted exports the anonymised version instead of the original
+      const redacted = req.query.version === "redacted";
+      if (redacted && (original.redaction?.status !== "applied" || !original.redaction.redactedText)) {
+        return res.status(400).json({ message: "No redacted version saved" });
+      }
+      if (redacted && original.redaction?.stale) {
+        return res.status(409).json({ message: "The transcription changed after it was anonymised; save the redaction again" });
+      }
+      const transcription = redacted ? getRedactedView(original) : original;
+
       if (!transcription.transcriptionText) {
         return res.status(400).json({ message: "Transcription not ready" });
       }
 
-      const filename = `${transcription.title}.${format}`;
+      // The redacted title has the proposals applied, so it does not give away the participant's name
+      const filename = `${transcription.title}${redacted ? " (anonimizada)" : ""}.${format}`;
       
       if (format === "txt") {
         res.setHeader("Content-Type", "text/plain; charset=utf-8");
         res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
         res.send(transcription.transcriptionText);
       } else if (format === "docx") {
-        // Simple DOCX-like output (plain text for now)
+        const buffer = await buildTranscriptionDocx(transcription);
         res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
         res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-        res.send(transcription.transcriptionText);
+        res.send(buffer);
+      } else if (format === "srt" || format === "vtt") {
+        const segments = (transcription.segments || []) as TranscriptionSegment[];
+        if (segments.length === 0) {
+          return res.status(400).json({ message: "Transcription has no timestamps" });
+        }
+        res.setHeader("Content-Type", format === "srt" ? "application/x-subrip; charset=utf-8" : "text/vtt; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.send(format === "srt" ? buildSrt(segments) : buildVtt(segments));
       } else {
         res.status(400).json({ message: "Invalid format" });
       }
@@ -230,6 +407,15 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(404).json({ message: "Transcription not found" });
       }
 
+      // Stored media goes with the transcription
+      if (transcription.mediaKey) {
+        await getMediaStorage().delete(transcription.mediaKey);
+      }
+      const job = await storage.getLatestTranscriptionJob(id);
+      if (job) {
+        try { fs.unlinkSync(job.filePath); } catch (e) {}
+      }
+
       await storage.deleteTranscription(id);
       res.json({ success: true });
     } catch (error) {
@@ -238,6 +424,70 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Detect personal data and propose pseudonyms for review
+  app.post("/api/transcriptions/:id/redaction", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+      if (transcription.status !== "completed" || !transcription.transcriptionText) {
+        return res.status(400).json({ message: "Transcription not ready" });
+      }
+      if (transcription.redaction?.status === "processing") {
+        return res.status(409).json({ message: "Redaction is already running" });
+      }
+
+      const updated = await storage.updateTranscription(id, {
+        redaction: {
+          ...transcription.redaction,
+          status: "processing",
+          proposals: transcription.redaction?.proposals || [],
+          error: undefined,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+      // Detect asynchronously
+      processRedaction(id);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error starting redaction:", error);
+      res.status(500).json({ message: "Failed to start redaction" });
+    }
+  });
+
+  // Save the reviewed proposals and build the anonymised version from them
+  app.put("/api/transcriptions/:id/redaction", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+      if (transcription.redaction?.status === "processing") {
+        return res.status(409).json({ message: "Redaction is already running" });
+      }
+
+      const parseResult = z.array(redactionProposalSchema).safeParse(req.body.proposals);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid proposals", errors: parseResult.error.errors });
+      }
+
+      const updated = await storage.updateTranscription(id, {
+        redaction: buildRedactedVersion(transcription, parseResult.data),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error saving redaction:", error);
+      res.status(500).json({ message: "Failed to save redaction" });
+    }
+  });
+
   // Save edited transcription
   app.put("/api/transcriptions/:id", isAuthenticated, async (req: any, res) => {
     try {
@@ -248,11 +498,20 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(404).json({ message: "Transcription not found" });
       }
 
-      const { transcriptionText, segments, title } = req.body;
+      const { transcriptionText, segments, speakers, title } = req.body;
 
       // Build updates object
       const updates: Record<string, any> = {};
 
+      // Handle moving to another project (null removes it from its project)
+      const projectId = await resolveProjectId(req.body.projectId, transcription.userId);
+      if (projectId === false) {
+        return res.status(400).json({ message: "Invalid project" });
+      }
+      if (projectId !== undefined) {
+        updates.projectId = projectId;
+      }
+
       // Handle title update
       if (title !== undefined) {
         if (typeof title !== "string" || title.trim().length === 0) {
@@ -277,7 +536,32 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
       // Handle segments update
       if (segments !== undefined) {
-        updates.segments = segments;
+        const parseResult = z.array(transcriptionSegmentSchema).safeParse(segments);
+        if (!parseResult.success) {
+          return res.status(400).json({ message: "Invalid segments", errors: parseResult.error.errors });
+        }
+        updates.segments = parseResult.data;
+      }
+
+      // Handle speaker roster update (renames and merges are sent together with the segments)
+      if (speakers !== undefined) {
+        const parseResult = z.array(transcriptionSpeakerSchema).safeParse(speakers);
+        if (!parseResult.success) {
+          return res.status(400).json({ message: "Invalid speakers", errors: parseResult.error.errors });
+        }
+        const labels = parseResult.data.map((s) => s.label);
+        if (new Set(labels).size !== labels.length) {
+          return res.status(400).json({ message: "Duplicate speaker labels" });
+        }
+        updates.speakers = parseResult.data;
+      }
+
+      // Keep the roster in step with the labels actually used by the segments
+      if (updates.segments || updates.speakers) {
+        updates.speakers = reconcileSpeakerRoster(
+          updates.speakers || transcription.speakers || [],
+          updates.segments || transcription.segments || []
+        );
       }
 
       // Ensure there's something to update
@@ -285,9 +569,18 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(400).json({ message: "No valid updates provided" });
       }
 
-      await storage.updateTranscription(id, updates);
+      const contentChanged = ["title", "transcriptionText", "segments", "speakers"].some((key) => key in updates);
+      if (contentChanged && transcription.redaction) {
+        updates.redaction = markRedactionStale(transcription.redaction);
+      }
+
+      await ensureOriginalRevision(transcription);
+      const updated = await storage.updateTranscription(id, updates);
+      await recordRevision(updated, "edit");
+      if (updates.segments) {
+        await reanchorCodings(updated);
+      }
 
-      const updated = await storage.getTranscription(id);
       res.json(updated);
     } catch (error) {
       console.error("Error updating transcription:", error);
@@ -295,6 +588,434 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Revision history, newest first
+  app.get("/api/transcriptions/:id/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const revisions = await storage.getTranscriptionRevisions(id);
+      res.json(revisions.map(summarizeRevision));
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Word-level diff between two revisions (?from=<id>&to=<id>)
+  app.get("/api/transcriptions/:id/revisions/diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const from = await storage.getTranscriptionRevision(parseInt(req.query.from));
+      const to = await storage.getTranscriptionRevision(parseInt(req.query.to));
+      if (!from || !to || from.transcriptionId !== id || to.transcriptionId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const changes = diffWords(from.transcriptionText || "", to.transcriptionText || "");
+      res.json({
+        from: summarizeRevision(from),
+        to: summarizeRevision(to),
+        changes,
+        wordsInserted: countChangedWords(changes, "insert"),
+        wordsDeleted: countChangedWords(changes, "delete"),
+      });
+    } catch (error) {
+      console.error("Error diffing revisions:", error);
+      res.status(500).json({ message: "Failed to diff revisions" });
+    }
+  });
+
+  // Restore the content of an earlier revision; recorded as a new revision so it can be undone
+  app.post("/api/transcriptions/:id/revisions/:revisionId/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const revision = await storage.getTranscriptionRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.transcriptionId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      await ensureOriginalRevision(transcription);
+      const wordCount = (revision.transcriptionText || "").split(/\s+/).filter(Boolean).length;
+      const updated = await storage.updateTranscription(id, {
+        title: revision.title,
+        transcriptionText: revision.transcriptionText,
+        segments: revision.segments,
+        speakers: revision.speakers,
+        wordCount,
+        pageCount: Math.ceil(wordCount / 250),
+        ...(transcription.redaction ? { redaction: markRedactionStale(transcription.redaction) } : {}),
+      });
+      await recordRevision(updated, "restore", revision.id);
+      await reanchorCodings(updated);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Project routes
+  const projectSchema = z.object({
+    name: z.string().trim().min(1).max(120),
+    description: z.string().trim().max(2000).nullable().optional(),
+  });
+
+  app.get("/api/projects", isAuthenticated, async (req: any, res) => {
+    try {
+      const projects = await storage.getProjectsByUser(req.user.claims.sub);
+      res.json(projects);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  app.get("/api/projects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+
+      if (!project || project.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await storage.getProjectSummary(project));
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  app.post("/api/projects", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = projectSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid project", errors: parseResult.error.errors });
+      }
+
+      const project = await storage.createProject({
+        ...parseResult.data,
+        userId: req.user.claims.sub,
+      });
+      res.json(project);
+    } catch (error) {
+      console.error("Error creating project:", error);
+      res.status(500).json({ message: "Failed to create project" });
+    }
+  });
+
+  app.put("/api/projects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+
+      if (!project || project.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const parseResult = projectSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid project", errors: parseResult.error.errors });
+      }
+
+      const updated = await storage.updateProject(id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  // Deleting a project keeps its transcriptions and analyses, which become unassigned
+  app.delete("/api/projects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+
+      if (!project || project.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      await storage.deleteProject(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  // Codebook routes
+  const codeSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    definition: z.string().trim().max(2000).nullable().optional(),
+    parentId: z.number().int().positive().nullable().optional(),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  });
+
+  app.get("/api/projects/:id/codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+
+      if (!project || project.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await storage.getCodesByProject(project.id));
+    } catch (error) {
+      console.error("Error fetching codes:", error);
+      res.status(500).json({ message: "Failed to fetch codes" });
+    }
+  });
+
+  app.post("/api/projects/:id/codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+
+      if (!project || project.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const parseResult = codeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid code", errors: parseResult.error.errors });
+      }
+
+      const codebook = await storage.getCodesByProject(project.id);
+      const problem = checkCodebookEntry(codebook, parseResult.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const code = await storage.createCode({ ...parseResult.data, projectId: project.id });
+      res.json(code);
+    } catch (error) {
+      console.error("Error creating code:", error);
+      res.status(500).json({ message: "Failed to create code" });
+    }
+  });
+
+  app.put("/api/codes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const code = await getUserCode(parseInt(req.params.id), req.user.claims.sub);
+
+      if (!code) {
+        return res.status(404).json({ message: "Code not found" });
+      }
+
+      const parseResult = codeSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid code", errors: parseResult.error.errors });
+      }
+
+      const codebook = await storage.getCodesByProject(code.projectId);
+      const problem = checkCodebookEntry(codebook, { ...code, ...parseResult.data }, code.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const updated = await storage.updateCode(code.id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating code:", error);
+      res.status(500).json({ message: "Failed to update code" });
+    }
+  });
+
+  // Deletes the code with everything coded with it
+  app.delete("/api/codes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const code = await getUserCode(parseInt(req.params.id), req.user.claims.sub);
+
+      if (!code) {
+        return res.status(404).json({ message: "Code not found" });
+      }
+
+      await storage.deleteCode(code.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting code:", error);
+      res.status(500).json({ message: "Failed to delete code" });
+    }
+  });
+
+  // Coding routes; a transcription is coded with the codebook of its project
+  const codingSchema = z.object({
+    codeId: z.number().int().positive(),
+    segmentIndex: z.number().int().min(0),
+    offsetStart: z.number().int().min(0),
+    offsetEnd: z.number().int().min(1),
+  }).refine((coding) => coding.offsetEnd > coding.offsetStart, { message: "Empty passage" });
+
+  app.get("/api/transcriptions/:id/codings", isAuthenticated, async (req: any, res) => {
+    try {
+      const transcription = await storage.getTranscription(parseInt(req.params.id));
+
+      if (!transcription || transcription.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+      if (!transcription.projectId) {
+        return res.json([]);
+      }
+
+      res.json(await storage.getCodingsByTranscription(transcription.id, transcription.projectId));
+    } catch (error) {
+      console.error("Error fetching codings:", error);
+      res.status(500).json({ message: "Failed to fetch codings" });
+    }
+  });
+
+  app.post("/api/transcriptions/:id/codings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transcription = await storage.getTranscription(parseInt(req.params.id));
+
+      if (!transcription || transcription.userId !== userId) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+
+      const parseResult = codingSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid coding", errors: parseResult.error.errors });
+      }
+      const { codeId, segmentIndex, offsetStart, offsetEnd } = parseResult.data;
+
+      const code = await storage.getCode(codeId);
+      if (!code || code.projectId !== transcription.projectId) {
+        return res.status(400).json({ message: "Code is not in the transcription's project codebook" });
+      }
+      const segment = transcription.segments?.[segmentIndex];
+      if (!segment || offsetEnd > segment.text.length) {
+        return res.status(400).json({ message: "Passage is outside the segment" });
+      }
+
+      const [coding] = await storage.createCodings([{
+        transcriptionId: transcription.id,
+        codeId,
+        userId,
+        segmentIndex,
+        offsetStart,
+        offsetEnd,
+        text: segment.text.slice(offsetStart, offsetEnd),
+        origin: "researcher",
+        status: "accepted",
+      }]);
+      res.json(coding);
+    } catch (error) {
+      console.error("Error creating coding:", error);
+      res.status(500).json({ message: "Failed to create coding" });
+    }
+  });
+
+  // Model suggestions run in the background, like redaction; the client polls the transcription's
+  // codingSuggestions. They are stored as proposals for the researcher to accept or reject.
+  app.post("/api/transcriptions/:id/codings/suggestions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const transcription = await storage.getTranscription(id);
+
+      if (!transcription || transcription.userId !== userId) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+      if (transcription.status !== "completed" || !transcription.segments?.length) {
+        return res.status(400).json({ message: "Transcription not ready" });
+      }
+      if (!transcription.projectId) {
+        return res.status(400).json({ message: "Transcription is not in a project" });
+      }
+      if (transcription.codingSuggestions?.status === "processing") {
+        return res.status(409).json({ message: "Coding suggestions are already running" });
+      }
+
+      const codebook = await storage.getCodesByProject(transcription.projectId);
+      if (codebook.length === 0) {
+        return res.status(400).json({ message: "The project codebook is empty" });
+      }
+
+      // Claimed in one statement, so a double submit does not start two runs
+      const updated = await storage.claimCodingSuggestions(id);
+      if (!updated) {
+        return res.status(409).json({ message: "Coding suggestions are already running" });
+      }
+
+      // Suggest asynchronously
+      processCodingSuggestions(id, userId);
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error starting coding suggestions:", error);
+      res.status(500).json({ message: "Failed to start coding suggestions" });
+    }
+  });
+
+  // Accepts or rejects a proposal, or moves a coding to another code of the same codebook
+  app.put("/api/codings/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const coding = await storage.getCoding(parseInt(req.params.id));
+
+      if (!coding || coding.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Coding not found" });
+      }
+
+      const parseResult = z.object({
+        status: z.enum(CODING_STATUSES).optional(),
+        codeId: z.number().int().positive().optional(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid coding", errors: parseResult.error.errors });
+      }
+
+      if (parseResult.data.codeId !== undefined) {
+        const [current, target] = await Promise.all([
+          storage.getCode(coding.codeId),
+          storage.getCode(parseResult.data.codeId),
+        ]);
+        if (!target || target.projectId !== current?.projectId) {
+          return res.status(400).json({ message: "Code is not in the same codebook" });
+        }
+      }
+
+      const updated = await storage.updateCoding(coding.id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating coding:", error);
+      res.status(500).json({ message: "Failed to update coding" });
+    }
+  });
+
+  app.delete("/api/codings/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const coding = await storage.getCoding(parseInt(req.params.id));
+
+      if (!coding || coding.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Coding not found" });
+      }
+
+      await storage.deleteCoding(coding.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting coding:", error);
+      res.status(500).json({ message: "Failed to delete coding" });
+    }
+  });
+
   // Analysis routes
   app.get("/api/analyses", isAuthenticated, async (req: any, res) => {
     try {
@@ -316,14 +1037,51 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(404).json({ message: "Analysis not found" });
       }
       
-      res.json(analysis);
+      const sources = await storage.getAnalysisSources(analysis);
+      res.json({ ...analysis, sources });
     } catch (error) {
       console.error("Error fetching analysis:", error);
       res.status(500).json({ message: "Failed to fetch analysis" });
     }
   });
 
-  app.post("/api/analyses", isAuthenticated, upload.single("theoreticalFramework"), async (req: any, res) => {
+  app.get("/api/analyses/:id/download", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const format = req.query.format || "pdf";
+      const analysis = await storage.getAnalysis(id);
+
+      if (!analysis || analysis.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      if (analysis.status !== "completed") {
+        return res.status(400).json({ message: "Analysis not ready" });
+      }
+
+      if (format !== "pdf") {
+        return res.status(400).json({ message: "Invalid format" });
+      }
+
+      const buffer = await buildAnalysisPdf(analysis);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${analysis.title}.pdf"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error downloading analysis:", error);
+      res.status(500).json({ message: "Failed to download analysis" });
+    }
+  });
+
+  // Analyses either one or more of the user's transcriptions (transcriptionIds) or external text,
+  // pasted as inputText or uploaded as inputFile
+  app.post("/api/analyses", isAuthenticated, upload.fields([
+    { name: "theoreticalFramework", maxCount: 1 },
+    { name: "inputFile", maxCount: 1 },
+  ]), async (req: any, res) => {
+    const frameworkFile: Express.Multer.File | undefined = req.files?.theoreticalFramework?.[0];
+    const inputFile: Express.Multer.File | undefined = req.files?.inputFile?.[0];
+
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -332,70 +1090,193 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(404).json({ message: "User not found" });
       }
 
-      const { transcriptionId, title, theoreticalFrameworkText } = req.body;
-      
-      if (!transcriptionId || !title) {
+      const { title, theoreticalFrameworkText } = req.body;
+      // transcriptionIds may be repeated; a single transcriptionId is still accepted
+      const transcriptionIds = parseIdList(req.body.transcriptionIds ?? req.body.transcriptionId);
+      const isExternal = transcriptionIds !== null && transcriptionIds.length === 0;
+
+      if (!transcriptionIds || !title || (isExternal && !req.body.inputText && !inputFile)) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
-      // Check if user has credits or free analysis
-      const canUseFreeAnalysis = !user.freeAnalysisUsed;
-      const hasCredits = (user.credits || 0) > 0;
-      
-      if (!canUseFreeAnalysis && !hasCredits) {
-        return res.status(403).json({ message: "Sem créditos de análise disponíveis" });
+      if (transcriptionIds.length > MAX_ANALYSIS_TRANSCRIPTIONS) {
+        return res.status(400).json({ message: `Selecione no máximo ${MAX_ANALYSIS_TRANSCRIPTIONS} transcrições` });
       }
 
-      // Get transcription
-      const transcription = await storage.getTranscription(parseInt(transcriptionId));
-      if (!transcription || transcription.userId !== userId) {
-        return res.status(404).json({ message: "Transcription not found" });
+      // A deductive analysis brings its category grid, sent as JSON in the multipart form
+      const mode = req.body.analysisMode || "emergent";
+      if (!ANALYSIS_MODES.includes(mode)) {
+        return res.status(400).json({ message: "Invalid analysis mode" });
+      }
+      let categoryGrid: GridCategory[] | undefined;
+      if (mode === "deductive") {
+        let grid: unknown;
+        try {
+          grid = JSON.parse(req.body.categoryGrid || "");
+        } catch {
+          return res.status(400).json({ message: "Invalid category grid" });
+        }
+        const parsed = categoryGridSchema.safeParse(grid);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid category grid", errors: parsed.error.errors });
+        }
+        categoryGrid = parsed.data;
+      }
+
+      // Get transcriptions, in the order they were selected
+      const transcriptions: Transcription[] = [];
+      for (const transcriptionId of transcriptionIds) {
+        const transcription = await storage.getTranscription(transcriptionId);
+        if (!transcription || transcription.userId !== userId) {
+          return res.status(404).json({ message: "Transcription not found" });
+        }
+        if (transcription.status !== "completed" || !transcription.transcriptionText) {
+          return res.status(400).json({ message: `A transcrição "${transcription.title}" ainda não foi concluída` });
+        }
+        transcriptions.push(transcription);
+      }
+
+      // Filed under the interviews' project (when they share one) unless another one is chosen
+      const projectId = await resolveProjectId(req.body.projectId, userId);
+      if (projectId === false) {
+        return res.status(400).json({ message: "Invalid project" });
+      }
+      const sharedProjectId = transcriptions.length > 0 &&
+        transcriptions.every((t) => t.projectId === transcriptions[0].projectId)
+        ? transcriptions[0].projectId
+        : null;
+
+      // External text is written in the language the user picks; transcriptions use the (first) interview's
+      let language: string;
+      if (isExternal) {
+        language = req.body.language || "pt";
+        if (!ANALYSIS_LANGUAGES.includes(language)) {
+          return res.status(400).json({ message: "Invalid language" });
+        }
+      } else {
+        language = transcriptions[0].detectedLanguage ||
+          (transcriptions[0].language !== "auto" ? transcriptions[0].language : "pt");
       }
 
-      // Get theoretical framework
+      // Text to analyse
+      let input: AnalysisInput;
+      let inputText: string;
+      let textPages: number;
+      if (isExternal) {
+        if (inputFile) {
+          const extracted = await extractDocumentText(inputFile.path, inputFile.originalname, inputFile.mimetype);
+          if ("error" in extracted) {
+            return res.status(400).json({ message: extracted.error });
+          }
+          inputText = extracted.text;
+          textPages = extracted.pages;
+        } else {
+          inputText = String(req.body.inputText).trim();
+          textPages = estimatePages(inputText);
+        }
+        if (!inputText) {
+          return res.status(400).json({ message: "O texto para análise está vazio" });
+        }
+        input = inputText;
+      } else {
+        const documents: CorpusDocument[] = transcriptions.map((t) => ({
+          transcriptionId: t.id,
+          title: t.title,
+          text: t.transcriptionText || "",
+        }));
+        inputText = documents.length === 1
+          ? documents[0].text
+          : documents.map((d, i) => `=== Entrevista ${i + 1}: ${d.title} ===\n${d.text}`).join("\n\n");
+        textPages = estimatePages(inputText);
+        input = documents;
+      }
+
+      // Get theoretical framework; uploaded documents count their real pages, pasted text 250 words per page
       let theoreticalFramework = theoreticalFrameworkText || "";
       let theoreticalFrameworkFileName = "";
+      let referencePages = estimatePages(theoreticalFramework);
 
-      if (req.file) {
-        theoreticalFrameworkFileName = req.file.originalname;
-        theoreticalFramework = fs.readFileSync(req.file.path, "utf-8");
-        fs.unlinkSync(req.file.path);
+      if (frameworkFile) {
+        const extracted = await extractDocumentText(frameworkFile.path, frameworkFile.originalname, frameworkFile.mimetype);
+        if ("error" in extracted) {
+          return res.status(400).json({ message: extracted.error });
+        }
+        theoreticalFrameworkFileName = frameworkFile.originalname;
+        theoreticalFramework = extracted.text;
+        referencePages = extracted.pages;
       }
 
-      // Calculate pages and credits
-      const transcriptionText = transcription.transcriptionText || "";
-      const textWordCount = transcriptionText.split(/\s+/).filter(Boolean).length;
-      const textPages = Math.ceil(textWordCount / 250);
-      
-      const referenceWordCount = theoreticalFramework.split(/\s+/).filter(Boolean).length;
-      const referencePages = Math.ceil(referenceWordCount / 250);
-
-      // Calculate credits (text from internal transcription is already paid)
-      const { totalCredits } = calculateAnalysisCredits(textPages, referencePages, true);
+      // External text is charged at the text tier for its size; the free analysis is kept for one that costs something
+      const { totalCredits } = calculateAnalysisCredits(textPages, referencePages, !isExternal);
+      const canUseFreeAnalysis = !user.freeAnalysisUsed && totalCredits > 0;
       const creditsToDeduct = canUseFreeAnalysis ? 0 : totalCredits;
 
+      if ((user.credits || 0) < creditsToDeduct) {
+        return res.status(403).json({
+          message: `Sem créditos de análise disponíveis: esta análise custa ${creditsToDeduct} créditos e você tem ${user.credits || 0}`,
+        });
+      }
+
       // Create analysis record
       const analysis = await storage.createAnalysis({
         userId,
-        transcriptionId: parseInt(transcriptionId),
+        projectId: projectId === undefined ? sharedProjectId : projectId,
+        transcriptionId: transcriptions[0]?.id ?? null,
         title,
-        inputText: transcriptionText,
+        inputText,
         inputTextPages: textPages,
         theoreticalFramework,
         theoreticalFrameworkFileName: theoreticalFrameworkFileName || null,
         theoreticalFrameworkPages: referencePages,
-        isFromInternalTranscription: true,
+        mode,
+        categoryGrid: categoryGrid ?? null,
+        isFromInternalTranscription: !isExternal,
         creditsUsed: creditsToDeduct,
         status: "processing",
       });
 
+      await storage.setAnalysisTranscriptions(analysis.id, transcriptionIds);
+
       // Process analysis asynchronously
-      processAnalysis(analysis.id, transcriptionText, theoreticalFramework, userId, creditsToDeduct, canUseFreeAnalysis);
+      processAnalysis(analysis.id, input, theoreticalFramework, categoryGrid, language, userId, creditsToDeduct, canUseFreeAnalysis);
 
       res.json(analysis);
     } catch (error) {
       console.error("Error creating analysis:", error);
       res.status(500).json({ message: "Failed to create analysis" });
+    } finally {
+      // Uploaded files are only read above, so they are removed here whatever the outcome
+      for (const file of [frameworkFile, inputFile]) {
+        if (file && fs.existsSync(file.path)) {
+          try { fs.unlinkSync(file.path); } catch (e) {}
+        }
+      }
+    }
+  });
+
+  // Move an analysis to another project
+  app.put("/api/analyses/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const analysis = await storage.getAnalysis(id);
+
+      if (!analysis || analysis.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      const projectId = await resolveProjectId(req.body.projectId, analysis.userId);
+      if (projectId === false) {
+        return res.status(400).json({ message: "Invalid project" });
+      }
+      if (projectId === undefined) {
+        return res.status(400).json({ message: "No valid updates provided" });
+      }
+
+      const updated = await storage.updateAnalysis(id, { projectId });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating analysis:", error);
+      res.status(500).json({ message: "Failed to update analysis" });
     }
   });
 
@@ -854,121 +1735,173 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 }
 
-// Background processing functions - Progressive transcription with chunk tracking
-async function processTranscriptionProgressive(
-  transcriptionId: number, 
-  filePath: string, 
-  userId: string, 
-  useFreeCredit: boolean,
-  isPremiumQuality: boolean
-) {
-  let convertedPath: string | null = null;
-  let chunks: { path: string; startOffset: number }[] = [];
-  
-  try {
-    // Prepare audio chunks (WAV for premium, MP3 for free)
-    console.log(`Preparing audio for transcription ${transcriptionId}, premium: ${isPremiumQuality}`);
-    const prepared = await prepareAudioChunks(filePath, isPremiumQuality);
-    convertedPath = prepared.convertedPath;
-    chunks = prepared.chunks;
-    
-    // Initialize chunk progress
-    const chunkProgress: TranscriptionChunkProgress[] = chunks.map((chunk, i) => ({
-      chunkIndex: i,
-      totalChunks: chunks.length,
-      status: "pending" as const,
-      startOffset: chunk.startOffset,
-    }));
-    
-    await storage.updateTranscription(transcriptionId, {
-      status: "processing",
-      duration: Math.round(prepared.duration),
-      totalChunks: chunks.length,
-      completedChunks: 0,
-      chunkProgress,
-    });
-    
-    // Process each chunk
-    let fullText = "";
-    let allSegments: TranscriptionSegment[] = [];
-    
-    for (let i = 0; i < chunks.length; i++) {
-      console.log(`Transcribing chunk ${i + 1}/${chunks.length} for transcription ${transcriptionId}`);
-      
-      // Mark chunk as processing
-      await storage.updateChunkProgress(transcriptionId, i, { status: "processing" });
-      
-      try {
-        const result = await transcribeSingleChunk(chunks[i].path, chunks[i].startOffset);
-        
-        fullText += (fullText ? " " : "") + result.text;
-        allSegments = allSegments.concat(result.segments);
-        
-        // Mark chunk as completed with text
-        await storage.updateChunkProgress(transcriptionId, i, { 
-          status: "completed",
-          text: result.text,
-          segments: result.segments,
-        });
-        
-      } catch (chunkError: any) {
-        console.error(`Error transcribing chunk ${i}:`, chunkError);
-        await storage.updateChunkProgress(transcriptionId, i, { 
-          status: "error",
-          error: chunkError.message,
-        });
-        throw chunkError;
-      }
+// Reads projectId from a request body: undefined leaves the item where it is, null or "" takes it
+// out of its project. Returns false when the value is not one of the user's projects.
+async function resolveProjectId(value: unknown, userId: string): Promise<number | null | undefined | false> {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const projectId = Number(value);
+  if (!Number.isInteger(projectId)) return false;
+  const project = await storage.getProject(projectId);
+  return project && project.userId === userId ? projectId : false;
+}
+
+// The code, when the project it belongs to is the user's
+async function getUserCode(codeId: number, userId: string): Promise<Code | undefined> {
+  const code = await storage.getCode(codeId);
+  if (!code) return undefined;
+  const project = await storage.getProject(code.projectId);
+  return project && project.userId === userId ? code : undefined;
+}
+
+// Codebooks have two levels: a parent is a category and cannot itself have a parent.
+// Returns why the entry does not fit the codebook, or null when it does.
+function checkCodebookEntry(
+  codebook: Code[],
+  entry: { name?: string; parentId?: number | null },
+  codeId?: number
+): string | null {
+  const others = codebook.filter((c) => c.id !== codeId);
+  if (entry.name && others.some((c) => c.name.trim().toLowerCase() === entry.name!.trim().toLowerCase())) {
+    return "A code with this name already exists in the codebook";
+  }
+  if (entry.parentId) {
+    const parent = others.find((c) => c.id === entry.parentId);
+    if (!parent) return "Parent code not found in the codebook";
+    if (parent.parentId) return "A code with a parent cannot be a parent";
+    if (codeId !== undefined && others.some((c) => c.parentId === codeId)) {
+      return "A code with child codes cannot have a parent";
     }
-    
-    // Calculate word and page count
-    const wordCount = fullText.split(/\s+/).filter(Boolean).length;
-    const pageCount = Math.ceil(wordCount / 250);
+  }
+  return null;
+}
+
+// The file may be unreadable, or removed by the retention sweep after its size was read; pipeline also
+// closes the file when the client aborts. Headers are already sent, so the response can only be cut off.
+function sendMediaStream(source: NodeJS.ReadableStream, res: Response) {
+  pipeline(source, res, (err) => {
+    if (err) res.destroy(err);
+  });
+}
+
+// The stored mimetype is whatever the client sent with the upload, so only audio and video types are served as such
+function mediaContentType(mimeType: string | null): string {
+  const type = mimeType?.toLowerCase();
+  return type && (MEDIA_MIME_TYPE.test(type) || type === "application/ogg") ? type : "application/octet-stream";
+}
+
+// Reads a list of ids from a multipart field, which arrives as a string when sent once and as an
+// array when repeated. Duplicates are dropped, order is kept; null means a value was not an id.
+function parseIdList(value: unknown): number[] | null {
+  const values = Array.isArray(value) ? value : value === undefined || value === "" ? [] : [value];
+  const ids: number[] = [];
+  for (const v of values) {
+    const id = Number(v);
+    if (!Number.isInteger(id) || id <= 0) return null;
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+// Drops speakers no segment refers to any more (e.g. after a merge) and adds labels
+// that only exist in the segments, such as transcriptions made before the roster existed
+function reconcileSpeakerRoster(roster: TranscriptionSpeaker[], segments: TranscriptionSegment[]): TranscriptionSpeaker[] {
+  const used = new Set(segments.map((s) => s.speaker).filter((s): s is string => !!s));
+  const reconciled = roster.filter((s) => used.has(s.label));
+  used.forEach((label) => {
+    if (!reconciled.some((s) => s.label === label)) {
+      reconciled.push({ label, role: "other" });
+    }
+  });
+  return reconciled;
+}
+
+async function processRedaction(transcriptionId: number) {
+  try {
+    const transcription = await storage.getTranscription(transcriptionId);
+    if (!transcription) return;
+
+    const proposals = await detectRedactions(transcription);
 
-    // Update transcription with final result
     await storage.updateTranscription(transcriptionId, {
-      transcriptionText: fullText,
-      segments: allSegments,
-      wordCount,
-      pageCount,
-      status: "completed",
-      completedAt: new Date(),
+      redaction: {
+        ...transcription.redaction,
+        status: "review",
+        proposals,
+        updatedAt: new Date().toISOString(),
+      },
     });
+  } catch (error: any) {
+    console.error("Error detecting personal data:", error);
+    const transcription = await storage.getTranscription(transcriptionId);
+    await storage.updateTranscription(transcriptionId, {
+      redaction: {
+        ...transcription?.redaction,
+        status: "error",
+        proposals: transcription?.redaction?.proposals || [],
+        error: error.message,
+        updatedAt: new Date().toISOString(),
+      },
+    }).catch(() => {});
+  }
+}
 
-    // Update user credits
-    if (useFreeCredit) {
-      await storage.markFreeTranscriptionUsed(userId);
-    } else {
-      await storage.deductCredits(userId, pageCount);
-    }
+async function processCodingSuggestions(transcriptionId: number, userId: string) {
+  try {
+    const transcription = await storage.getTranscription(transcriptionId);
+    if (!transcription?.projectId) throw new Error("Transcription is not in a project");
 
-    // Clean up files
-    cleanupChunks(convertedPath, chunks, filePath);
-    try { fs.unlinkSync(filePath); } catch (e) {}
-    
-  } catch (error) {
-    console.error("Error processing transcription:", error);
+    const codebook = await storage.getCodesByProject(transcription.projectId);
+    const existing = await storage.getCodingsByTranscription(transcription.id, transcription.projectId);
+    const proposals = await suggestCodings(transcription, codebook, existing, userId);
+
+    await storage.createCodings(proposals);
     await storage.updateTranscription(transcriptionId, {
-      status: "error",
+      codingSuggestions: { status: "completed", proposed: proposals.length, updatedAt: new Date().toISOString() },
     });
-    
-    // Clean up files
-    if (convertedPath) cleanupChunks(convertedPath, chunks, filePath);
-    try { fs.unlinkSync(filePath); } catch (e) {}
+  } catch (error: any) {
+    console.error("Error suggesting codings:", error);
+    await storage.updateTranscription(transcriptionId, {
+      codingSuggestions: { status: "error", error: error.message, updatedAt: new Date().toISOString() },
+    }).catch(() => {});
   }
 }
 
-async function processAnalysis(analysisId: number, transcriptionText: string, theoreticalFramework: string, userId: string, creditsToDeduct: number, useFreeAnalysis: boolean) {
+// Transcriptions are analysed as a corpus of interviews, external text as a single document
+type AnalysisInput = CorpusDocument[] | string;
+
+// Segments are taken from the transcriptions as they are now; the text is the one that was analysed
+async function getQuoteSources(input: AnalysisInput): Promise<QuoteSourceText[]> {
+  if (typeof input === "string") return [{ text: input }];
+  return Promise.all(input.map(async (document) => {
+    const transcription = await storage.getTranscription(document.transcriptionId);
+    return { ...document, segments: transcription?.segments };
+  }));
+}
+
+async function processAnalysis(analysisId: number, input: AnalysisInput, theoreticalFramework: string, categoryGrid: GridCategory[] | undefined, language: string, userId: string, creditsToDeduct: number, useFreeAnalysis: boolean) {
   try {
-    // Perform Bardin analysis
-    const result = await analyzeWithBardin(transcriptionText, theoreticalFramework);
+    // Perform Bardin analysis, deductive when a category grid was given
+    const result = typeof input === "string"
+      ? await analyzeWithBardin(input, theoreticalFramework, language, categoryGrid)
+      : await analyzeCorpusWithBardin(input, theoreticalFramework, language, categoryGrid);
+
+    // Keep only quotes (and unclassified units) that occur in the analysed text, with their position in it
+    const sources = await getQuoteSources(input);
+    const { quotes, rejected } = locateQuotes(result.quotes, sources);
+    const unclassified = result.unclassified ? locateQuotes(result.unclassified, sources) : undefined;
+    const discarded = rejected + (unclassified?.rejected ?? 0);
+    if (discarded > 0) {
+      console.warn(`Analysis ${analysisId}: discarded ${discarded} quotes not found in the analysed text`);
+    }
 
     // Update analysis
     await storage.updateAnalysis(analysisId, {
       analysisResult: result.analysis,
       categories: result.categories,
       themes: result.themes,
-      quotes: result.quotes,
+      quotes,
+      unclassifiedUnits: unclassified?.quotes ?? null,
       status: "completed",
       completedAt: new Date(),
     });
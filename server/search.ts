@@ -0,0 +1,77 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import type { TranscriptSearchHit } from "@shared/schema";
+
+// Portuguese stemming with accents stripped, so "educacao" finds "educação"
+export const SEARCH_CONFIG = "portuguese_unaccent";
+
+// Control characters never occur in transcripts, so they can mark ts_headline matches unambiguously
+const MARK_START = "\u0002";
+const MARK_END = "\u0003";
+export const HEADLINE_OPTIONS =
+  `StartSel=${MARK_START}, StopSel=${MARK_END}, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Creates the text search configuration and the GIN index; drizzle-kit cannot express either.
+// Without permission to install unaccent, search still works but is accent-sensitive; a configuration
+// created that way is upgraded, and the index rebuilt, on the first start where unaccent is available.
+export async function prepareFullTextSearch() {
+  try {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS unaccent`);
+  } catch (error: any) {
+    console.warn(`unaccent extension unavailable, search will be accent-sensitive: ${error.message}`);
+  }
+
+  await db.execute(sql.raw(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${SEARCH_CONFIG}') THEN
+        CREATE TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG} (COPY = portuguese);
+      END IF;
+    END $$;
+  `));
+
+  const { rows } = await db.execute(sql.raw(`
+    SELECT
+      EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'unaccent') AS available,
+      EXISTS (
+        SELECT 1
+        FROM pg_ts_config_map m
+        JOIN pg_ts_config c ON c.oid = m.mapcfg
+        JOIN pg_ts_dict d ON d.oid = m.mapdict
+        WHERE c.cfgname = '${SEARCH_CONFIG}' AND d.dictname = 'unaccent'
+      ) AS mapped
+  `));
+  const { available, mapped } = rows[0] as { available: boolean; mapped: boolean };
+  const upgraded = available && !mapped;
+  if (upgraded) {
+    await db.execute(sql.raw(`
+      ALTER TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG}
+        ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem
+    `));
+  }
+
+  // Must match the expression used by storage.searchTranscriptions for the index to be used
+  await db.execute(sql.raw(`
+    CREATE INDEX IF NOT EXISTS "IDX_transcriptions_text_search"
+    ON transcriptions USING gin (to_tsvector('${SEARCH_CONFIG}'::regconfig, coalesce(transcription_text, '')))
+  `));
+  // An index built with the accent-sensitive mapping holds the old lexemes
+  if (upgraded) {
+    await db.execute(sql.raw(`REINDEX INDEX "IDX_transcriptions_text_search"`));
+  }
+}
+
+// Splits a ts_headline result into plain and highlighted runs, so the client never renders HTML
+export function parseHeadline(headline: string): TranscriptSearchHit["snippet"] {
+  const parts: TranscriptSearchHit["snippet"] = [];
+  headline.split(MARK_START).forEach((piece, i) => {
+    if (i === 0) {
+      if (piece) parts.push({ text: piece, highlight: false });
+      return;
+    }
+    const [match, rest] = piece.split(MARK_END);
+    if (match) parts.push({ text: match, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  });
+  return parts;
+}
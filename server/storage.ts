@@ -1,7 +1,13 @@
 import {
   users,
+  projects,
   transcriptions,
+  transcriptionJobs,
+  transcriptionRevisions,
   analyses,
+  analysisTranscriptions,
+  codes,
+  codings,
   payments,
   adminActions,
   userAccessLogs,
@@ -10,10 +16,22 @@ import {
   ADMIN_EMAIL,
   type User,
   type UpsertUser,
+  type Project,
+  type InsertProject,
+  type ProjectWithSummary,
   type Transcription,
   type InsertTranscription,
+  type TranscriptionJob,
+  type InsertTranscriptionJob,
+  type TranscriptionRevision,
+  type InsertTranscriptionRevision,
   type Analysis,
   type InsertAnalysis,
+  type AnalysisSource,
+  type Code,
+  type InsertCode,
+  type Coding,
+  type InsertCoding,
   type Payment,
   type InsertPayment,
   type AdminAction,
@@ -25,9 +43,11 @@ import {
   type SystemLog,
   type InsertSystemLog,
   type TranscriptionChunkProgress,
+  type TranscriptSearchHit,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ilike, or, ne, sql, gte, lte, count, sum } from "drizzle-orm";
+import { SEARCH_CONFIG, HEADLINE_OPTIONS, parseHeadline } from "./search";
+import { eq, desc, and, ne, sql, gte, lte, lt, isNotNull, inArray, count, sum } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -42,14 +62,39 @@ export interface IStorage {
   deductCredits(userId: string, amount: number): Promise<User>;
   addCredits(userId: string, amount: number): Promise<User>;
 
+  // Project operations
+  getProject(id: number): Promise<Project | undefined>;
+  getProjectsByUser(userId: string): Promise<ProjectWithSummary[]>;
+  getProjectSummary(project: Project): Promise<ProjectWithSummary>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, updates: Partial<Project>): Promise<Project>;
+  deleteProject(id: number): Promise<void>;
+
   // Transcription operations
   getTranscription(id: number): Promise<Transcription | undefined>;
   getTranscriptionsByUser(userId: string): Promise<Transcription[]>;
   createTranscription(transcription: InsertTranscription): Promise<Transcription>;
   updateTranscription(id: number, updates: Partial<Transcription>): Promise<Transcription>;
+  completeTranscription(id: number, updates: Partial<Transcription>, charge: { userId: string; pages: number } | null): Promise<Transcription>;
   updateChunkProgress(id: number, chunkIndex: number, progress: Partial<TranscriptionChunkProgress>): Promise<Transcription>;
   deleteTranscription(id: number): Promise<void>;
-  searchTranscriptions(userId: string, query: string): Promise<Transcription[]>;
+  searchTranscriptions(userId: string, query: string, limit?: number): Promise<TranscriptSearchHit[]>;
+  getTranscriptionsWithExpiredMedia(now: Date): Promise<Transcription[]>;
+  failInterruptedRedactions(): Promise<number>;
+  claimCodingSuggestions(id: number): Promise<Transcription | undefined>;
+  failInterruptedCodingSuggestions(): Promise<number>;
+
+  // Transcription job queue
+  createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob>;
+  claimNextTranscriptionJob(): Promise<TranscriptionJob | undefined>;
+  getLatestTranscriptionJob(transcriptionId: number): Promise<TranscriptionJob | undefined>;
+  updateTranscriptionJob(id: number, updates: Partial<TranscriptionJob>): Promise<TranscriptionJob>;
+  requeueInterruptedTranscriptionJobs(): Promise<TranscriptionJob[]>;
+
+  // Transcription revisions
+  createTranscriptionRevision(revision: InsertTranscriptionRevision): Promise<TranscriptionRevision>;
+  getTranscriptionRevisions(transcriptionId: number): Promise<TranscriptionRevision[]>;
+  getTranscriptionRevision(id: number): Promise<TranscriptionRevision | undefined>;
 
   // Analysis operations
   getAnalysis(id: number): Promise<Analysis | undefined>;
@@ -57,6 +102,20 @@ export interface IStorage {
   createAnalysis(analysis: InsertAnalysis): Promise<Analysis>;
   updateAnalysis(id: number, updates: Partial<Analysis>): Promise<Analysis>;
   deleteAnalysis(id: number): Promise<void>;
+  setAnalysisTranscriptions(analysisId: number, transcriptionIds: number[]): Promise<void>;
+  getAnalysisSources(analysis: Analysis): Promise<AnalysisSource[]>;
+
+  // Codebook and coding operations
+  getCodesByProject(projectId: number): Promise<Code[]>;
+  getCode(id: number): Promise<Code | undefined>;
+  createCode(code: InsertCode): Promise<Code>;
+  updateCode(id: number, updates: Partial<Code>): Promise<Code>;
+  deleteCode(id: number): Promise<void>;
+  getCodingsByTranscription(transcriptionId: number, projectId?: number): Promise<Coding[]>;
+  getCoding(id: number): Promise<Coding | undefined>;
+  createCodings(newCodings: InsertCoding[]): Promise<Coding[]>;
+  updateCoding(id: number, updates: Partial<Coding>): Promise<Coding>;
+  deleteCoding(id: number): Promise<void>;
 
   // Payment operations
   getPaymentsByUser(userId: string): Promise<Payment[]>;
@@ -199,6 +258,51 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Saves the finished transcript and charges its pages not charged yet in one transaction, so a
+  // transcript is never shown as completed without being paid for, and a job resumed after a crash or
+  // re-run after a chunk retry never pays twice. Without a charge (free trial) only the update is made.
+  async completeTranscription(
+    id: number,
+    updates: Partial<Transcription>,
+    charge: { userId: string; pages: number } | null
+  ): Promise<Transcription> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ creditsUsed: transcriptions.creditsUsed })
+        .from(transcriptions)
+        .where(eq(transcriptions.id, id))
+        .for("update");
+      if (!current) {
+        throw new Error("Transcription not found");
+      }
+
+      let creditsUsed = current.creditsUsed || 0;
+      const amount = charge ? Math.max(0, charge.pages - creditsUsed) : 0;
+      if (charge && amount > 0) {
+        const [user] = await tx.select().from(users).where(eq(users.id, charge.userId)).for("update");
+        if (!user) {
+          throw new Error("User not found");
+        }
+        const currentCredits = user.credits || 0;
+        if (currentCredits < amount) {
+          throw new Error(`Créditos insuficientes. Você tem ${currentCredits} créditos, mas precisa de ${amount}.`);
+        }
+        await tx
+          .update(users)
+          .set({ credits: currentCredits - amount, updatedAt: new Date() })
+          .where(eq(users.id, charge.userId));
+        creditsUsed = charge.pages;
+      }
+
+      const [transcription] = await tx
+        .update(transcriptions)
+        .set({ ...updates, creditsUsed })
+        .where(eq(transcriptions.id, id))
+        .returning();
+      return transcription;
+    });
+  }
+
   async addCredits(userId: string, amount: number): Promise<User> {
     const [user] = await db
       .update(users)
@@ -220,6 +324,90 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Project operations
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByUser(userId: string): Promise<ProjectWithSummary[]> {
+    const userProjects = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.userId, userId))
+      .orderBy(desc(projects.updatedAt));
+    return this.withProjectSummaries(userProjects);
+  }
+
+  async getProjectSummary(project: Project): Promise<ProjectWithSummary> {
+    const [summary] = await this.withProjectSummaries([project]);
+    return summary;
+  }
+
+  private async withProjectSummaries(projectList: Project[]): Promise<ProjectWithSummary[]> {
+    if (projectList.length === 0) return [];
+    const ids = projectList.map((p) => p.id);
+
+    const transcriptionTotals = await db
+      .select({
+        projectId: transcriptions.projectId,
+        interviewCount: count(),
+        totalDuration: sql<number>`coalesce(sum(${transcriptions.duration}), 0)::int`,
+        credits: sql<number>`coalesce(sum(${transcriptions.creditsUsed}), 0)::int`,
+      })
+      .from(transcriptions)
+      .where(inArray(transcriptions.projectId, ids))
+      .groupBy(transcriptions.projectId);
+
+    // Failed analyses are never charged, although creditsUsed is filled in up front
+    const analysisTotals = await db
+      .select({
+        projectId: analyses.projectId,
+        analysisCount: count(),
+        credits: sql<number>`coalesce(sum(${analyses.creditsUsed}) filter (where ${analyses.status} = 'completed'), 0)::int`,
+      })
+      .from(analyses)
+      .where(inArray(analyses.projectId, ids))
+      .groupBy(analyses.projectId);
+
+    return projectList.map((project) => {
+      const t = transcriptionTotals.find((row) => row.projectId === project.id);
+      const a = analysisTotals.find((row) => row.projectId === project.id);
+      return {
+        ...project,
+        interviewCount: t?.interviewCount || 0,
+        totalDuration: t?.totalDuration || 0,
+        analysisCount: a?.analysisCount || 0,
+        creditsSpent: (t?.credits || 0) + (a?.credits || 0),
+      };
+    });
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const [newProject] = await db
+      .insert(projects)
+      .values(project)
+      .returning();
+    return newProject;
+  }
+
+  async updateProject(id: number, updates: Partial<Project>): Promise<Project> {
+    const [project] = await db
+      .update(projects)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<void> {
+    // Transcriptions and analyses are kept; their project_id is set to null by the foreign key
+    await db.delete(projects).where(eq(projects.id, id));
+  }
+
   // Transcription operations
   async getTranscription(id: number): Promise<Transcription | undefined> {
     const [transcription] = await db
@@ -255,21 +443,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateChunkProgress(id: number, chunkIndex: number, progress: Partial<TranscriptionChunkProgress>): Promise<Transcription> {
-    const transcription = await this.getTranscription(id);
-    if (!transcription) throw new Error("Transcription not found");
-    
-    const chunkProgress = (transcription.chunkProgress || []) as TranscriptionChunkProgress[];
-    if (chunkProgress[chunkIndex]) {
-      chunkProgress[chunkIndex] = { ...chunkProgress[chunkIndex], ...progress };
-    }
-    
-    const completedChunks = chunkProgress.filter(c => c.status === "completed").length;
-    
+    // Chunks finish concurrently, so the entry is patched in SQL instead of read-modify-write
+    const patch = Object.fromEntries(Object.entries(progress).filter(([, v]) => v !== undefined));
+    const clearedKeys = Object.entries(progress).filter(([, v]) => v === undefined).map(([k]) => k);
+    const path = `{${chunkIndex}}`;
+    const clearedKeysLiteral = `{${clearedKeys.join(",")}}`;
+    // jsonb_set yields NULL for a missing index, so fall back to the unchanged array
+    const updatedProgress = sql`COALESCE(jsonb_set(
+      ${transcriptions.chunkProgress},
+      ${path}::text[],
+      ((${transcriptions.chunkProgress} -> ${chunkIndex}::int) - ${clearedKeysLiteral}::text[]) || ${JSON.stringify(patch)}::jsonb,
+      false
+    ), ${transcriptions.chunkProgress})`;
+
     const [updated] = await db
       .update(transcriptions)
-      .set({ chunkProgress, completedChunks })
+      .set({
+        chunkProgress: updatedProgress,
+        completedChunks: sql`(SELECT count(*)::int FROM jsonb_array_elements(${updatedProgress}) AS c WHERE c->>'status' = 'completed')`,
+      })
       .where(eq(transcriptions.id, id))
       .returning();
+    if (!updated) throw new Error("Transcription not found");
     return updated;
   }
 
@@ -277,20 +472,193 @@ export class DatabaseStorage implements IStorage {
     await db.delete(transcriptions).where(eq(transcriptions.id, id));
   }
 
-  async searchTranscriptions(userId: string, query: string): Promise<Transcription[]> {
+  // Personal data detection runs in the server process, so one still marked processing at boot was cut off
+  async failInterruptedRedactions(): Promise<number> {
+    const failed = await db
+      .update(transcriptions)
+      .set({
+        redaction: sql`${transcriptions.redaction} || ${JSON.stringify({
+          status: "error",
+          error: "Interrupted by a server restart",
+          updatedAt: new Date().toISOString(),
+        })}::jsonb`,
+      })
+      .where(sql`${transcriptions.redaction}->>'status' = 'processing'`)
+      .returning({ id: transcriptions.id });
+    return failed.length;
+  }
+
+  // Marks a coding suggestion run as started unless one already is; undefined when it is
+  async claimCodingSuggestions(id: number): Promise<Transcription | undefined> {
+    const [transcription] = await db
+      .update(transcriptions)
+      .set({ codingSuggestions: { status: "processing", updatedAt: new Date().toISOString() } })
+      .where(and(
+        eq(transcriptions.id, id),
+        sql`${transcriptions.codingSuggestions}->>'status' IS DISTINCT FROM 'processing'`
+      ))
+      .returning();
+    return transcription;
+  }
+
+  // Same for coding suggestions, which also run in the server process
+  async failInterruptedCodingSuggestions(): Promise<number> {
+    const failed = await db
+      .update(transcriptions)
+      .set({
+        codingSuggestions: sql`${transcriptions.codingSuggestions} || ${JSON.stringify({
+          status: "error",
+          error: "Interrupted by a server restart",
+          updatedAt: new Date().toISOString(),
+        })}::jsonb`,
+      })
+      .where(sql`${transcriptions.codingSuggestions}->>'status' = 'processing'`)
+      .returning({ id: transcriptions.id });
+    return failed.length;
+  }
+
+  async getTranscriptionsWithExpiredMedia(now: Date): Promise<Transcription[]> {
     return await db
       .select()
       .from(transcriptions)
       .where(
         and(
-          eq(transcriptions.userId, userId),
-          or(
-            ilike(transcriptions.title, `%${query}%`),
-            ilike(transcriptions.transcriptionText, `%${query}%`)
-          )
+          isNotNull(transcriptions.mediaKey),
+          lt(transcriptions.mediaExpiresAt, now)
         )
+      );
+  }
+
+  // Full-text search returning the matching segments; a transcript matching only across
+  // segment boundaries (or without segments) yields one hit on its full text instead
+  async searchTranscriptions(userId: string, query: string, limit: number = 50): Promise<TranscriptSearchHit[]> {
+    const config = sql.raw(`'${SEARCH_CONFIG}'::regconfig`);
+    const result = await db.execute(sql`
+      WITH q AS (SELECT websearch_to_tsquery(${config}, ${query}) AS query),
+      matches AS (
+        SELECT t.id, t.title, t.segments, t.transcription_text
+        FROM ${transcriptions} t, q
+        WHERE t.user_id = ${userId}
+          AND to_tsvector(${config}, coalesce(t.transcription_text, '')) @@ q.query
       )
-      .orderBy(desc(transcriptions.createdAt));
+      SELECT
+        m.id AS "transcriptionId",
+        m.title,
+        (s.ordinality - 1)::int AS "segmentIndex",
+        (s.value->>'start')::float AS "start",
+        (s.value->>'end')::float AS "end",
+        s.value->>'speaker' AS "speaker",
+        ts_headline(${config}, s.value->>'text', q.query, ${HEADLINE_OPTIONS}) AS "headline",
+        ts_rank(to_tsvector(${config}, s.value->>'text'), q.query) AS "rank"
+      FROM matches m
+      CROSS JOIN q
+      CROSS JOIN LATERAL jsonb_array_elements(coalesce(m.segments, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+      WHERE to_tsvector(${config}, s.value->>'text') @@ q.query
+      UNION ALL
+      SELECT
+        m.id, m.title, NULL, NULL, NULL, NULL,
+        ts_headline(${config}, m.transcription_text, q.query, ${HEADLINE_OPTIONS}),
+        ts_rank(to_tsvector(${config}, m.transcription_text), q.query)
+      FROM matches m
+      CROSS JOIN q
+      WHERE NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(coalesce(m.segments, '[]'::jsonb)) AS e(value)
+        WHERE to_tsvector(${config}, e.value->>'text') @@ q.query
+      )
+      ORDER BY "rank" DESC, "transcriptionId" DESC, "segmentIndex"
+      LIMIT ${limit}
+    `);
+
+    return result.rows.map((row: any) => ({
+      transcriptionId: row.transcriptionId,
+      title: row.title,
+      segmentIndex: row.segmentIndex,
+      start: row.start,
+      end: row.end,
+      speaker: row.speaker,
+      snippet: parseHeadline(row.headline || ""),
+      rank: Number(row.rank),
+    }));
+  }
+
+  // Transcription job queue
+  async createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob> {
+    const [newJob] = await db
+      .insert(transcriptionJobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  async claimNextTranscriptionJob(): Promise<TranscriptionJob | undefined> {
+    // SKIP LOCKED keeps two workers from claiming the same job
+    const [job] = await db
+      .update(transcriptionJobs)
+      .set({
+        status: "running",
+        attempts: sql`${transcriptionJobs.attempts} + 1`,
+        startedAt: new Date(),
+      })
+      .where(
+        eq(
+          transcriptionJobs.id,
+          sql`(SELECT ${transcriptionJobs.id} FROM ${transcriptionJobs} WHERE ${transcriptionJobs.status} = 'pending' ORDER BY ${transcriptionJobs.createdAt} LIMIT 1 FOR UPDATE SKIP LOCKED)`
+        )
+      )
+      .returning();
+    return job;
+  }
+
+  async getLatestTranscriptionJob(transcriptionId: number): Promise<TranscriptionJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(transcriptionJobs)
+      .where(eq(transcriptionJobs.transcriptionId, transcriptionId))
+      .orderBy(desc(transcriptionJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async updateTranscriptionJob(id: number, updates: Partial<TranscriptionJob>): Promise<TranscriptionJob> {
+    const [job] = await db
+      .update(transcriptionJobs)
+      .set(updates)
+      .where(eq(transcriptionJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async requeueInterruptedTranscriptionJobs(): Promise<TranscriptionJob[]> {
+    return await db
+      .update(transcriptionJobs)
+      .set({ status: "pending" })
+      .where(eq(transcriptionJobs.status, "running"))
+      .returning();
+  }
+
+  // Transcription revisions
+  async createTranscriptionRevision(revision: InsertTranscriptionRevision): Promise<TranscriptionRevision> {
+    const [newRevision] = await db
+      .insert(transcriptionRevisions)
+      .values(revision)
+      .returning();
+    return newRevision;
+  }
+
+  async getTranscriptionRevisions(transcriptionId: number): Promise<TranscriptionRevision[]> {
+    return await db
+      .select()
+      .from(transcriptionRevisions)
+      .where(eq(transcriptionRevisions.transcriptionId, transcriptionId))
+      .orderBy(desc(transcriptionRevisions.createdAt), desc(transcriptionRevisions.id));
+  }
+
+  async getTranscriptionRevision(id: number): Promise<TranscriptionRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(transcriptionRevisions)
+      .where(eq(transcriptionRevisions.id, id));
+    return revision;
   }
 
   // Analysis operations
@@ -331,6 +699,115 @@ export class DatabaseStorage implements IStorage {
     await db.delete(analyses).where(eq(analyses.id, id));
   }
 
+  async setAnalysisTranscriptions(analysisId: number, transcriptionIds: number[]): Promise<void> {
+    await db.delete(analysisTranscriptions).where(eq(analysisTranscriptions.analysisId, analysisId));
+    if (transcriptionIds.length === 0) return;
+    await db.insert(analysisTranscriptions).values(
+      transcriptionIds.map((transcriptionId, i) => ({ analysisId, transcriptionId, position: i + 1 }))
+    );
+  }
+
+  async getAnalysisSources(analysis: Analysis): Promise<AnalysisSource[]> {
+    const sources = await db
+      .select({
+        transcriptionId: analysisTranscriptions.transcriptionId,
+        title: transcriptions.title,
+        position: analysisTranscriptions.position,
+      })
+      .from(analysisTranscriptions)
+      .innerJoin(transcriptions, eq(transcriptions.id, analysisTranscriptions.transcriptionId))
+      .where(eq(analysisTranscriptions.analysisId, analysis.id))
+      .orderBy(analysisTranscriptions.position);
+    if (sources.length > 0 || !analysis.transcriptionId) return sources;
+
+    // Analyses made before multi-interview analysis only have transcription_id
+    const transcription = await this.getTranscription(analysis.transcriptionId);
+    return transcription ? [{ transcriptionId: transcription.id, title: transcription.title, position: 1 }] : [];
+  }
+
+  // Codebook and coding operations
+  async getCodesByProject(projectId: number): Promise<Code[]> {
+    return await db
+      .select()
+      .from(codes)
+      .where(eq(codes.projectId, projectId))
+      .orderBy(codes.name);
+  }
+
+  async getCode(id: number): Promise<Code | undefined> {
+    const [code] = await db
+      .select()
+      .from(codes)
+      .where(eq(codes.id, id));
+    return code;
+  }
+
+  async createCode(code: InsertCode): Promise<Code> {
+    const [newCode] = await db
+      .insert(codes)
+      .values(code)
+      .returning();
+    return newCode;
+  }
+
+  async updateCode(id: number, updates: Partial<Code>): Promise<Code> {
+    const [code] = await db
+      .update(codes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(codes.id, id))
+      .returning();
+    return code;
+  }
+
+  async deleteCode(id: number): Promise<void> {
+    // Its codings are deleted and its child codes lose their parent through the foreign keys
+    await db.delete(codes).where(eq(codes.id, id));
+  }
+
+  // Only codings with codes of the given project; a transcription moved to another project keeps its
+  // old codings, hidden, in case it is moved back. Without a project, all of them.
+  async getCodingsByTranscription(transcriptionId: number, projectId?: number): Promise<Coding[]> {
+    const rows = await db
+      .select({ coding: codings })
+      .from(codings)
+      .innerJoin(codes, eq(codes.id, codings.codeId))
+      .where(and(
+        eq(codings.transcriptionId, transcriptionId),
+        projectId === undefined ? undefined : eq(codes.projectId, projectId)
+      ))
+      .orderBy(codings.segmentIndex, codings.offsetStart);
+    return rows.map((row) => row.coding);
+  }
+
+  async getCoding(id: number): Promise<Coding | undefined> {
+    const [coding] = await db
+      .select()
+      .from(codings)
+      .where(eq(codings.id, id));
+    return coding;
+  }
+
+  async createCodings(newCodings: InsertCoding[]): Promise<Coding[]> {
+    if (newCodings.length === 0) return [];
+    return await db
+      .insert(codings)
+      .values(newCodings)
+      .returning();
+  }
+
+  async updateCoding(id: number, updates: Partial<Coding>): Promise<Coding> {
+    const [coding] = await db
+      .update(codings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(codings.id, id))
+      .returning();
+    return coding;
+  }
+
+  async deleteCoding(id: number): Promise<void> {
+    await db.delete(codings).where(eq(codings.id, id));
+  }
+
   // Payment operations
   async getPaymentsByUser(userId: string): Promise<Payment[]> {
     return await db
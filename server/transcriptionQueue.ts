@@ -0,0 +1,372 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import {
+  prepareAudioChunks,
+  transcribeSingleChunk,
+  cleanupChunks,
+  getTranscriptionProvider,
+  identifySpeakers,
+  nameSpeakerClusters,
+  groupSegmentsByMinute,
+  convertToWav,
+} from "./openai";
+import { getDiarizationProvider, assignSpeakerTurns } from "./diarization";
+import { getMediaStorage, getMediaExpiry } from "./mediaStorage";
+import { recordRevision } from "./revisions";
+import { markRedactionStale } from "./redaction";
+import { reanchorCodings } from "./coding";
+import type {
+  TranscriptionJob,
+  TranscriptionChunkProgress,
+  TranscriptionSegment,
+  TranscriptionSpeaker,
+} from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_CONCURRENT_JOBS = positiveIntegerEnv("TRANSCRIPTION_WORKER_CONCURRENCY", 2);
+const CHUNK_CONCURRENCY = positiveIntegerEnv("TRANSCRIPTION_CHUNK_CONCURRENCY", 3);
+const CHUNK_MAX_ATTEMPTS = 3;
+const CHUNK_RETRY_BASE_DELAY_MS = 2000;
+
+// A malformed or non-positive value would leave no worker or chunk lane running, so it falls back to the default
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`Ignoring invalid ${name}=${raw}; using ${fallback}`);
+  return fallback;
+}
+
+let activeJobs = 0;
+let isPolling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+export async function enqueueTranscription(params: {
+  transcriptionId: number;
+  userId: string;
+  filePath: string;
+  mimeType: string;
+  useFreeCredit: boolean;
+  isPremiumQuality: boolean;
+}): Promise<TranscriptionJob> {
+  const { mimeType, ...jobParams } = params;
+
+  // The upload becomes the transcription's stored media, kept for playback until it expires
+  const media = getMediaStorage();
+  const mediaKey = path.basename(params.filePath);
+  await media.put(params.filePath, mediaKey);
+  await storage.updateTranscription(params.transcriptionId, {
+    mediaKey,
+    mediaMimeType: mimeType,
+    mediaExpiresAt: getMediaExpiry(),
+  });
+
+  const job = await storage.createTranscriptionJob({ ...jobParams, filePath: await media.localPath(mediaKey) });
+  setImmediate(pollJobs);
+  return job;
+}
+
+// Puts a finished job back in the queue, e.g. after the user asked to retry a failed chunk
+export async function requeueTranscriptionJob(jobId: number): Promise<TranscriptionJob> {
+  const job = await storage.updateTranscriptionJob(jobId, {
+    status: "pending",
+    lastError: null,
+    finishedAt: null,
+  });
+  setImmediate(pollJobs);
+  return job;
+}
+
+async function pollJobs() {
+  if (isPolling) return;
+  isPolling = true;
+  try {
+    while (activeJobs < MAX_CONCURRENT_JOBS) {
+      const job = await storage.claimNextTranscriptionJob();
+      if (!job) break;
+
+      activeJobs++;
+      runJob(job).finally(() => {
+        activeJobs--;
+        setImmediate(pollJobs);
+      });
+    }
+  } catch (error) {
+    console.error("Error polling transcription jobs:", error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+// Removes the stored upload once nothing can use it any more
+async function discardMedia(transcriptionId: number) {
+  const transcription = await storage.getTranscription(transcriptionId);
+  if (transcription?.mediaKey) {
+    await getMediaStorage().delete(transcription.mediaKey);
+    await storage.updateTranscription(transcriptionId, { mediaKey: null, mediaExpiresAt: null });
+  }
+}
+
+async function runJob(job: TranscriptionJob) {
+  try {
+    const { failedChunks } = await processTranscriptionProgressive(job);
+    if (failedChunks > 0) {
+      // The failed chunks can be retried individually from the stored media
+      await storage.updateTranscriptionJob(job.id, {
+        status: "failed",
+        lastError: `${failedChunks} chunk(s) failed after ${CHUNK_MAX_ATTEMPTS} attempts`,
+        finishedAt: new Date(),
+      });
+    } else {
+      await storage.updateTranscriptionJob(job.id, {
+        status: "completed",
+        lastError: null,
+        finishedAt: new Date(),
+      });
+    }
+  } catch (error: any) {
+    console.error(`Error processing transcription job ${job.id}:`, error);
+    await storage.updateTranscriptionJob(job.id, {
+      status: "failed",
+      lastError: error.message,
+      finishedAt: new Date(),
+    }).catch(() => {});
+    await storage.updateTranscription(job.transcriptionId, {
+      status: "error",
+    }).catch(() => {});
+    await discardMedia(job.transcriptionId).catch(() => {});
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Runs the task for every item with at most `limit` of them in flight
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+// Transcribes one chunk, retrying with exponential backoff before giving up
+async function transcribeChunkWithRetry(
+  transcriptionId: number,
+  progress: TranscriptionChunkProgress,
+  chunk: { path: string; startOffset: number },
+  language: string
+): Promise<TranscriptionChunkProgress> {
+  let attempts = progress.attempts || 0;
+  let lastError: any;
+
+  for (let attempt = 1; attempt <= CHUNK_MAX_ATTEMPTS; attempt++) {
+    attempts++;
+    await storage.updateChunkProgress(transcriptionId, progress.chunkIndex, { status: "processing", attempts });
+
+    try {
+      const result = await transcribeSingleChunk(chunk.path, chunk.startOffset, language);
+      const completed = {
+        status: "completed" as const,
+        attempts,
+        text: result.text,
+        segments: result.segments,
+        words: result.words,
+        segmentScores: result.segmentScores,
+        language: result.language,
+        error: undefined,
+      };
+      await storage.updateChunkProgress(transcriptionId, progress.chunkIndex, completed);
+      return { ...progress, ...completed };
+    } catch (chunkError: any) {
+      lastError = chunkError;
+      console.error(`Error transcribing chunk ${progress.chunkIndex} (attempt ${attempt}/${CHUNK_MAX_ATTEMPTS}):`, chunkError);
+      if (attempt < CHUNK_MAX_ATTEMPTS) {
+        await delay(CHUNK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  const failed = { status: "error" as const, attempts, error: lastError?.message || "Unknown error" };
+  await storage.updateChunkProgress(transcriptionId, progress.chunkIndex, failed);
+  return { ...progress, ...failed };
+}
+
+// Most frequent language among the chunks, so a stray chunk (e.g. music or silence) does not win
+function pickDetectedLanguage(chunkProgress: TranscriptionChunkProgress[]): string | null {
+  const counts = new Map<string, number>();
+  for (const c of chunkProgress) {
+    if (c.language) counts.set(c.language, (counts.get(c.language) || 0) + 1);
+  }
+  let best: string | null = null;
+  counts.forEach((count, language) => {
+    if (best === null || count > counts.get(best)!) best = language;
+  });
+  return best;
+}
+
+// Acoustic diarization when configured, otherwise (or if it fails) speakers are guessed from the text
+async function labelSpeakers(
+  job: TranscriptionJob,
+  convertedPath: string,
+  segments: TranscriptionSegment[],
+  language: string | null,
+  roster: TranscriptionSpeaker[]
+): Promise<{ segments: TranscriptionSegment[]; roster: TranscriptionSpeaker[] }> {
+  const diarizer = getDiarizationProvider();
+  if (diarizer) {
+    let wavPath: string | null = null;
+    try {
+      // Premium uploads were already converted to WAV for transcription
+      wavPath = convertedPath.toLowerCase().endsWith(".wav") ? convertedPath : await convertToWav(job.filePath);
+      const turns = await diarizer.diarize(wavPath);
+      if (turns.length > 0) {
+        return await nameSpeakerClusters(assignSpeakerTurns(segments, turns), language, roster);
+      }
+      console.warn(`Diarization found no speech in transcription ${job.transcriptionId}, identifying speakers from text`);
+    } catch (error) {
+      console.error(`Diarization failed for transcription ${job.transcriptionId}, identifying speakers from text:`, error);
+    } finally {
+      if (wavPath && wavPath !== convertedPath) {
+        try { fs.unlinkSync(wavPath); } catch (e) {}
+      }
+    }
+  }
+  return identifySpeakers(segments, language, roster);
+}
+
+// Progressive transcription with chunk tracking; chunks already completed (or failed
+// and not yet retried) are kept and processing resumes from the first pending one
+async function processTranscriptionProgressive(job: TranscriptionJob): Promise<{ failedChunks: number }> {
+  const { transcriptionId, filePath, userId, useFreeCredit, isPremiumQuality } = job;
+  let convertedPath: string | null = null;
+  let chunks: { path: string; startOffset: number }[] = [];
+
+  try {
+    const transcription = await storage.getTranscription(transcriptionId);
+    if (!transcription) throw new Error("Transcription not found");
+
+    // Prepare audio chunks (WAV for premium, MP3 for free)
+    console.log(`Preparing audio for transcription ${transcriptionId}, premium: ${isPremiumQuality}, attempt: ${job.attempts}`);
+    const prepared = await prepareAudioChunks(filePath, isPremiumQuality);
+    convertedPath = prepared.convertedPath;
+    chunks = prepared.chunks;
+
+    // Splitting is deterministic, so previous progress is reusable when offsets line up
+    const previous = (transcription.chunkProgress || []) as TranscriptionChunkProgress[];
+    const canResume = previous.length === chunks.length &&
+      previous.every((c, i) => c.startOffset === chunks[i].startOffset);
+
+    const chunkProgress: TranscriptionChunkProgress[] = chunks.map((chunk, i) =>
+      canResume && (previous[i].status === "completed" || previous[i].status === "error")
+        ? previous[i]
+        : {
+            chunkIndex: i,
+            totalChunks: chunks.length,
+            status: "pending" as const,
+            startOffset: chunk.startOffset,
+          }
+    );
+
+    await storage.updateTranscription(transcriptionId, {
+      status: "processing",
+      duration: Math.round(prepared.duration),
+      totalChunks: chunks.length,
+      completedChunks: chunkProgress.filter(c => c.status === "completed").length,
+      chunkProgress,
+    });
+
+    const firstPending = chunkProgress.findIndex(c => c.status === "pending");
+    if (firstPending > 0) {
+      console.log(`Resuming transcription ${transcriptionId} from chunk ${firstPending + 1}/${chunks.length}`);
+    }
+
+    // Chunks are dispatched concurrently; results land in their own slot so order is kept
+    const pendingIndexes = chunkProgress.filter(c => c.status === "pending").map(c => c.chunkIndex);
+    await runWithConcurrency(pendingIndexes, CHUNK_CONCURRENCY, async (i) => {
+      console.log(`Transcribing chunk ${i + 1}/${chunks.length} for transcription ${transcriptionId}`);
+      chunkProgress[i] = await transcribeChunkWithRetry(transcriptionId, chunkProgress[i], chunks[i], transcription.language);
+    });
+
+    // Successful chunks are kept; the user can retry the failed ones
+    const failedChunks = chunkProgress.filter(c => c.status === "error").length;
+    if (failedChunks > 0) {
+      await storage.updateTranscription(transcriptionId, { status: "partial" });
+      return { failedChunks };
+    }
+
+    // Assemble in chunk order, including chunks carried over from a previous run
+    const fullText = chunkProgress.map(c => c.text || "").filter(Boolean).join(" ");
+    const allSegments: TranscriptionSegment[] = chunkProgress.flatMap(c => c.segments || []);
+    const confidence = {
+      words: chunkProgress.flatMap(c => c.words || []),
+      segments: chunkProgress.flatMap(c => c.segmentScores || []),
+    };
+    const detectedLanguage = pickDetectedLanguage(chunkProgress) ||
+      (transcription.language !== "auto" ? transcription.language : null);
+
+    // Speakers are labelled over the whole interview, starting from the roster of a previous run
+    console.log(`Identifying speakers for transcription ${transcriptionId}`);
+    const { segments: labelledSegments, roster } = await labelSpeakers(
+      job,
+      prepared.convertedPath,
+      allSegments,
+      detectedLanguage,
+      transcription.speakers || []
+    );
+
+    // Calculate word and page count
+    const wordCount = fullText.split(/\s+/).filter(Boolean).length;
+    const pageCount = Math.ceil(wordCount / 250);
+
+    // Update transcription with final result, charging only pages not charged before, so resuming or
+    // re-running the job does not charge twice
+    const completed = await storage.completeTranscription(transcriptionId, {
+      transcriptionText: fullText,
+      segments: groupSegmentsByMinute(labelledSegments),
+      confidence,
+      speakers: roster,
+      wordCount,
+      pageCount,
+      detectedLanguage,
+      status: "completed",
+      completedAt: new Date(),
+      // A re-run (e.g. a retried chunk) replaces the text an anonymised version was built from
+      ...(transcription.redaction ? { redaction: markRedactionStale(transcription.redaction) } : {}),
+    }, useFreeCredit ? null : { userId, pages: pageCount });
+    // Keeps the Whisper output recoverable after edits
+    await recordRevision(completed, "transcription");
+    await reanchorCodings(completed);
+
+    if (useFreeCredit) {
+      await storage.markFreeTranscriptionUsed(userId);
+    }
+
+    return { failedChunks: 0 };
+  } finally {
+    // Clean up converted files and chunks
+    if (convertedPath) cleanupChunks(convertedPath, chunks, filePath);
+  }
+}
+
+export async function startTranscriptionWorker() {
+  // Fails fast on a misconfigured provider instead of erroring on every chunk
+  console.log(`Transcription provider: ${getTranscriptionProvider().name}`);
+  console.log(`Diarization provider: ${getDiarizationProvider()?.name || "none"}`);
+
+  // Single-instance deployment: anything still marked running was cut off by a restart
+  const interrupted = await storage.requeueInterruptedTranscriptionJobs();
+  if (interrupted.length > 0) {
+    console.log(`Requeued ${interrupted.length} interrupted transcription job(s)`);
+  }
+
+  if (!pollTimer) {
+    pollTimer = setInterval(pollJobs, POLL_INTERVAL_MS);
+  }
+  await pollJobs();
+}
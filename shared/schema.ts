@@ -9,6 +9,8 @@ import {
   integer,
   boolean,
   serial,
+  primaryKey,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -48,6 +50,7 @@ export const users = pgTable("users", {
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
+  projects: many(projects),
   transcriptions: many(transcriptions),
   analyses: many(analyses),
   payments: many(payments),
@@ -55,6 +58,26 @@ export const usersRelations = relations(users, ({ many }) => ({
   creditTransactions: many(creditTransactions),
 }));
 
+// Projects group the transcriptions and analyses of one study
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  user: one(users, {
+    fields: [projects.userId],
+    references: [users.id],
+  }),
+  transcriptions: many(transcriptions),
+  analyses: many(analyses),
+  codes: many(codes),
+}));
+
 // Transcription segment type for timestamps
 export type TranscriptionSegment = {
   start: number;
@@ -63,6 +86,134 @@ export type TranscriptionSegment = {
   speaker?: string;
 };
 
+// Word timing with the recogniser's confidence (0-1), in seconds from the start of the recording
+export type TranscriptionWord = {
+  start: number;
+  end: number;
+  word: string;
+  confidence?: number;
+};
+
+// Whisper's own segment scores: avg_logprob (closer to 0 is better) and no_speech_prob
+// (chance the segment is silence or noise, a hint of hallucinated text)
+export type TranscriptionSegmentScore = {
+  start: number;
+  end: number;
+  avgLogprob?: number;
+  noSpeechProb?: number;
+};
+
+// Kept apart from segments, which get merged and edited, and matched to them by time
+export type TranscriptionConfidence = {
+  words: TranscriptionWord[];
+  segments: TranscriptionSegmentScore[];
+};
+
+// Speaker known for a transcription, kept so labels stay consistent across segment windows
+export type TranscriptionSpeaker = {
+  label: string; // as used in segment.speaker, e.g. "Entrevistado 1"
+  role: "interviewer" | "interviewee" | "other";
+  description?: string; // cues used to recognise the speaker (voice, topics, how they are addressed)
+};
+
+// Shapes accepted when segments and speakers are edited by the user
+export const transcriptionSegmentSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  speaker: z.string().trim().min(1).max(100).optional(),
+}).refine((segment) => segment.end >= segment.start, { message: "Segment ends before it starts" });
+
+export const transcriptionSpeakerSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  role: z.enum(["interviewer", "interviewee", "other"]),
+  description: z.string().max(500).optional(),
+});
+
+// Personal data the redaction pass looks for
+export const REDACTION_ENTITY_TYPES = ["name", "place", "organization", "cpf", "phone", "email"] as const;
+export type RedactionEntityType = typeof REDACTION_ENTITY_TYPES[number];
+
+// Proposed replacement: every occurrence of `original` becomes `replacement` once accepted
+export type RedactionProposal = {
+  id: string;
+  type: RedactionEntityType;
+  original: string;
+  replacement: string;
+  occurrences: number;
+  source: "pattern" | "model" | "manual";
+  accepted: boolean;
+};
+
+// Anonymised version kept alongside the original transcript
+export type TranscriptionRedaction = {
+  status: "processing" | "review" | "applied" | "error";
+  proposals: RedactionProposal[];
+  redactedText?: string;
+  redactedSegments?: TranscriptionSegment[];
+  error?: string;
+  stale?: boolean; // the transcript changed after the anonymised version was built
+  updatedAt: string;
+};
+
+// Pseudonyms are numbered per type, e.g. "[Pessoa 2]", whether detected or added by hand
+export const PSEUDONYM_PREFIXES: Record<RedactionEntityType, string> = {
+  name: "Pessoa",
+  place: "Local",
+  organization: "Organização",
+  cpf: "CPF",
+  phone: "Telefone",
+  email: "E-mail",
+};
+
+// Next number for a type, past every number already used in its ids and pseudonyms, so one number
+// never stands for two people
+export function nextPseudonymNumber(
+  type: RedactionEntityType,
+  proposals: Pick<RedactionProposal, "id" | "type" | "replacement">[]
+): number {
+  const prefix = `[${PSEUDONYM_PREFIXES[type]} `;
+  let last = proposals.filter((p) => p.type === type).length;
+  for (const p of proposals) {
+    const fromId = p.id.startsWith(`${type}-`) ? Number(p.id.slice(type.length + 1)) : NaN;
+    const fromReplacement = p.replacement.startsWith(prefix) && p.replacement.endsWith("]")
+      ? Number(p.replacement.slice(prefix.length, -1))
+      : NaN;
+    for (const n of [fromId, fromReplacement]) {
+      if (Number.isInteger(n)) last = Math.max(last, n);
+    }
+  }
+  return last + 1;
+}
+
+export const redactionProposalSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: z.enum(REDACTION_ENTITY_TYPES),
+  original: z.string().trim().min(1).max(200),
+  replacement: z.string().trim().min(1).max(200),
+  occurrences: z.number().int().min(0),
+  source: z.enum(["pattern", "model", "manual"]),
+  accepted: z.boolean(),
+});
+
+// Last run of the AI coding suggestions of a transcript; the proposals themselves are stored as codings
+export type CodingSuggestionsJob = {
+  status: "processing" | "completed" | "error";
+  proposed?: number; // proposals the run added
+  error?: string;
+  updatedAt: string;
+};
+
+// Languages offered for transcription; 'auto' lets the speech model detect it
+export const TRANSCRIPTION_LANGUAGES = [
+  { code: 'auto', label: 'Detectar automaticamente' },
+  { code: 'pt', label: 'Português' },
+  { code: 'es', label: 'Español' },
+  { code: 'en', label: 'English' },
+] as const;
+
+export type TranscriptionLanguage = typeof TRANSCRIPTION_LANGUAGES[number]['code'];
+
 // Transcription chunk progress type
 export type TranscriptionChunkProgress = {
   chunkIndex: number;
@@ -70,7 +221,11 @@ export type TranscriptionChunkProgress = {
   status: "pending" | "processing" | "completed" | "error";
   text?: string;
   segments?: TranscriptionSegment[];
+  words?: TranscriptionWord[];
+  segmentScores?: TranscriptionSegmentScore[];
   startOffset: number;
+  language?: string;
+  attempts?: number;
   error?: string;
 };
 
@@ -78,19 +233,30 @@ export type TranscriptionChunkProgress = {
 export const transcriptions = pgTable("transcriptions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
   title: varchar("title").notNull(),
   originalFileName: varchar("original_file_name").notNull(),
   fileSize: integer("file_size").notNull(),
   duration: integer("duration"),
   transcriptionText: text("transcription_text"),
   segments: jsonb("segments").$type<TranscriptionSegment[]>(),
+  confidence: jsonb("confidence").$type<TranscriptionConfidence>(),
+  speakers: jsonb("speakers").$type<TranscriptionSpeaker[]>(),
+  redaction: jsonb("redaction").$type<TranscriptionRedaction>(),
+  codingSuggestions: jsonb("coding_suggestions").$type<CodingSuggestionsJob>(),
   wordCount: integer("word_count"),
   pageCount: integer("page_count"),
+  creditsUsed: integer("credits_used").default(0),
   status: varchar("status").notNull().default("pending"),
   isPremiumQuality: boolean("is_premium_quality").default(false),
+  language: varchar("language").notNull().default("pt"), // requested language code or 'auto'
+  detectedLanguage: varchar("detected_language"),
   totalChunks: integer("total_chunks"),
   completedChunks: integer("completed_chunks").default(0),
   chunkProgress: jsonb("chunk_progress").$type<TranscriptionChunkProgress[]>(),
+  mediaKey: varchar("media_key"), // original upload in media storage; null once deleted
+  mediaMimeType: varchar("media_mime_type"),
+  mediaExpiresAt: timestamp("media_expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
 });
@@ -100,14 +266,104 @@ export const transcriptionsRelations = relations(transcriptions, ({ one, many })
     fields: [transcriptions.userId],
     references: [users.id],
   }),
+  project: one(projects, {
+    fields: [transcriptions.projectId],
+    references: [projects.id],
+  }),
   analyses: many(analyses),
+  jobs: many(transcriptionJobs),
+  revisions: many(transcriptionRevisions),
+  analysisLinks: many(analysisTranscriptions),
+  codings: many(codings),
+}));
+
+// Persistent queue of transcription jobs, picked up by the background worker
+export const transcriptionJobs = pgTable("transcription_jobs", {
+  id: serial("id").primaryKey(),
+  transcriptionId: integer("transcription_id").notNull().references(() => transcriptions.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  filePath: text("file_path").notNull(),
+  useFreeCredit: boolean("use_free_credit").notNull().default(false),
+  isPremiumQuality: boolean("is_premium_quality").notNull().default(false),
+  status: varchar("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_transcription_jobs_status").on(table.status)]);
+
+export const transcriptionJobsRelations = relations(transcriptionJobs, ({ one }) => ({
+  transcription: one(transcriptions, {
+    fields: [transcriptionJobs.transcriptionId],
+    references: [transcriptions.id],
+  }),
+  user: one(users, {
+    fields: [transcriptionJobs.userId],
+    references: [users.id],
+  }),
 }));
 
+// Snapshot of a transcript's content, written when transcription completes and on every save
+export const transcriptionRevisions = pgTable("transcription_revisions", {
+  id: serial("id").primaryKey(),
+  transcriptionId: integer("transcription_id").notNull().references(() => transcriptions.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: varchar("source").notNull(), // 'transcription', 'edit', 'restore'
+  restoredFromId: integer("restored_from_id"),
+  title: varchar("title").notNull(),
+  transcriptionText: text("transcription_text"),
+  segments: jsonb("segments").$type<TranscriptionSegment[]>(),
+  speakers: jsonb("speakers").$type<TranscriptionSpeaker[]>(),
+  wordCount: integer("word_count"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_transcription_revisions_transcription").on(table.transcriptionId)]);
+
+export const transcriptionRevisionsRelations = relations(transcriptionRevisions, ({ one }) => ({
+  transcription: one(transcriptions, {
+    fields: [transcriptionRevisions.transcriptionId],
+    references: [transcriptions.id],
+  }),
+  user: one(users, {
+    fields: [transcriptionRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Word-level change between two revisions; equal runs are included so the client can render the full text
+export type RevisionDiffChange = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+export type TranscriptionRevisionSummary = Omit<TranscriptionRevision, "transcriptionText" | "segments" | "speakers">;
+
+export type TranscriptionRevisionDiff = {
+  from: TranscriptionRevisionSummary;
+  to: TranscriptionRevisionSummary;
+  changes: RevisionDiffChange[];
+  wordsInserted: number;
+  wordsDeleted: number;
+};
+
+// Full-text search hit; segmentIndex/start are null when the match is not inside a single segment
+export type TranscriptSearchHit = {
+  transcriptionId: number;
+  title: string;
+  segmentIndex: number | null;
+  start: number | null;
+  end: number | null;
+  speaker: string | null;
+  snippet: { text: string; highlight: boolean }[];
+  rank: number;
+};
+
 // Analyses table (Bardin qualitative analysis)
 export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  transcriptionId: integer("transcription_id").references(() => transcriptions.id),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  transcriptionId: integer("transcription_id").references(() => transcriptions.id), // first interview; all of them are in analysis_transcriptions
   title: varchar("title").notNull(),
   inputText: text("input_text"),
   inputTextPages: integer("input_text_pages"),
@@ -120,20 +376,159 @@ export const analyses = pgTable("analyses", {
   categories: jsonb("categories"),
   themes: jsonb("themes"),
   quotes: jsonb("quotes"),
+  mode: varchar("mode").notNull().default("emergent"), // see ANALYSIS_MODES
+  categoryGrid: jsonb("category_grid"), // GridCategory[] of a deductive analysis
+  unclassifiedUnits: jsonb("unclassified_units"), // UnclassifiedUnit[] of a deductive analysis
   status: varchar("status").notNull().default("pending"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
 });
 
-export const analysesRelations = relations(analyses, ({ one }) => ({
+export const analysesRelations = relations(analyses, ({ one, many }) => ({
   user: one(users, {
     fields: [analyses.userId],
     references: [users.id],
   }),
+  project: one(projects, {
+    fields: [analyses.projectId],
+    references: [projects.id],
+  }),
   transcription: one(transcriptions, {
     fields: [analyses.transcriptionId],
     references: [transcriptions.id],
   }),
+  transcriptions: many(analysisTranscriptions),
+}));
+
+// Transcriptions analysed together; position is the interview's number in the corpus, starting at 1
+export const analysisTranscriptions = pgTable("analysis_transcriptions", {
+  analysisId: integer("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  transcriptionId: integer("transcription_id").notNull().references(() => transcriptions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+}, (table) => [primaryKey({ columns: [table.analysisId, table.transcriptionId] })]);
+
+export const analysisTranscriptionsRelations = relations(analysisTranscriptions, ({ one }) => ({
+  analysis: one(analyses, {
+    fields: [analysisTranscriptions.analysisId],
+    references: [analyses.id],
+  }),
+  transcription: one(transcriptions, {
+    fields: [analysisTranscriptions.transcriptionId],
+    references: [transcriptions.id],
+  }),
+}));
+
+// Quote (unit of registration) in analyses.quotes; transcriptionId and source (the interview title at
+// analysis time) are missing on analyses made before multi-interview analysis, and the location fields
+// on analyses made before quotes were checked against the analysed text
+export type AnalysisQuote = {
+  text: string;
+  category: string;
+  transcriptionId?: number;
+  source?: string;
+  // Character range in the analysed text of the source: the transcription text, or the external text
+  offsetStart?: number;
+  offsetEnd?: number;
+  // Segment the quote starts in, its range within that segment's text and the segment's start in seconds
+  segmentIndex?: number;
+  segmentOffsetStart?: number;
+  segmentOffsetEnd?: number;
+  timestamp?: number;
+};
+
+// 'emergent' lets the categories arise from the material; 'deductive' classifies the material into a
+// closed grid of categories the researcher defines beforehand
+export const ANALYSIS_MODES = ["emergent", "deductive"] as const;
+export type AnalysisMode = typeof ANALYSIS_MODES[number];
+
+// Category of a deductive grid with its operational definition
+export type GridCategory = {
+  name: string;
+  definition: string;
+};
+
+export const categoryGridSchema = z.array(z.object({
+  name: z.string().trim().min(1).max(100),
+  definition: z.string().trim().min(1).max(2000),
+})).min(1).max(40).refine(
+  (grid) => new Set(grid.map((c) => c.name.toLowerCase())).size === grid.length,
+  { message: "Category names must be unique" }
+);
+
+// Unit of registration a deductive analysis could not place in any category of the grid
+export type UnclassifiedUnit = Omit<AnalysisQuote, "category"> & {
+  reason?: string;
+};
+
+export type AnalysisSource = {
+  transcriptionId: number;
+  title: string;
+  position: number;
+};
+
+export type AnalysisWithSources = Analysis & { sources: AnalysisSource[] };
+
+// Codebook of a project. A code with a parent is grouped under it, so parents act as categories.
+export const codes = pgTable("codes", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => codes.id, { onDelete: "set null" }),
+  name: varchar("name").notNull(),
+  definition: text("definition"),
+  color: varchar("color").notNull(), // '#rrggbb'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_codes_project").on(table.projectId)]);
+
+export const codesRelations = relations(codes, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [codes.projectId],
+    references: [projects.id],
+  }),
+  parent: one(codes, {
+    fields: [codes.parentId],
+    references: [codes.id],
+  }),
+  codings: many(codings),
+}));
+
+// Suggested codings stay 'proposed' until the researcher accepts or rejects them; rejected ones are
+// kept so the same suggestion is not made again
+export const CODING_STATUSES = ["proposed", "accepted", "rejected"] as const;
+export type CodingStatus = typeof CODING_STATUSES[number];
+
+// A code applied to a passage of one transcript segment. The offsets are into the segment text;
+// text is the passage as it read when coded. A coding is stale when an edit removed its passage.
+export const codings = pgTable("codings", {
+  id: serial("id").primaryKey(),
+  transcriptionId: integer("transcription_id").notNull().references(() => transcriptions.id, { onDelete: "cascade" }),
+  codeId: integer("code_id").notNull().references(() => codes.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  segmentIndex: integer("segment_index").notNull(),
+  offsetStart: integer("offset_start").notNull(),
+  offsetEnd: integer("offset_end").notNull(),
+  text: text("text").notNull(),
+  origin: varchar("origin").notNull().default("researcher"), // 'researcher', 'ai'
+  status: varchar("status").notNull().default("accepted"), // see CODING_STATUSES
+  rationale: text("rationale"), // why the model proposed it
+  stale: boolean("stale").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_codings_transcription").on(table.transcriptionId)]);
+
+export const codingsRelations = relations(codings, ({ one }) => ({
+  transcription: one(transcriptions, {
+    fields: [codings.transcriptionId],
+    references: [transcriptions.id],
+  }),
+  code: one(codes, {
+    fields: [codings.codeId],
+    references: [codes.id],
+  }),
+  user: one(users, {
+    fields: [codings.userId],
+    references: [users.id],
+  }),
 }));
 
 // Payments table
@@ -292,12 +687,15 @@ export function calculateAnalysisCredits(textPages: number, referencePages: numb
   textTier: typeof ANALYSIS_TEXT_TIERS[number] | null;
   referenceTier: typeof ANALYSIS_REFERENCE_TIERS[number] | null;
 } {
-  const textTier = ANALYSIS_TEXT_TIERS.find(tier => textPages <= tier.maxPages) || ANALYSIS_TEXT_TIERS[ANALYSIS_TEXT_TIERS.length - 1];
+  // Transcriptions made on the platform were already charged per page, so only external text pays the text tier
+  const textTier = isInternalTranscription
+    ? null
+    : ANALYSIS_TEXT_TIERS.find(tier => textPages <= tier.maxPages) || ANALYSIS_TEXT_TIERS[ANALYSIS_TEXT_TIERS.length - 1];
   const referenceTier = referencePages > 0 
     ? ANALYSIS_REFERENCE_TIERS.find(tier => referencePages <= tier.maxPages) || ANALYSIS_REFERENCE_TIERS[ANALYSIS_REFERENCE_TIERS.length - 1]
     : null;
   
-  const textCredits = textTier.credits;
+  const textCredits = textTier?.credits || 0;
   const referenceCredits = referenceTier?.credits || 0;
   const totalCredits = textCredits + referenceCredits;
   
@@ -318,12 +716,40 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCodeSchema = createInsertSchema(codes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCodingSchema = createInsertSchema(codings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertTranscriptionSchema = createInsertSchema(transcriptions).omit({
   id: true,
   createdAt: true,
   completedAt: true,
 });
 
+export const insertTranscriptionJobSchema = createInsertSchema(transcriptionJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTranscriptionRevisionSchema = createInsertSchema(transcriptionRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAnalysisSchema = createInsertSchema(analyses).omit({
   id: true,
   createdAt: true,
@@ -360,9 +786,32 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+
+// Project with the totals shown on its dashboard; credits count completed work only
+export type ProjectWithSummary = Project & {
+  interviewCount: number;
+  totalDuration: number;
+  analysisCount: number;
+  creditsSpent: number;
+};
+
+export type InsertCode = z.infer<typeof insertCodeSchema>;
+export type Code = typeof codes.$inferSelect;
+
+export type InsertCoding = z.infer<typeof insertCodingSchema>;
+export type Coding = typeof codings.$inferSelect;
+
 export type InsertTranscription = z.infer<typeof insertTranscriptionSchema>;
 export type Transcription = typeof transcriptions.$inferSelect;
 
+export type InsertTranscriptionJob = z.infer<typeof insertTranscriptionJobSchema>;
+export type TranscriptionJob = typeof transcriptionJobs.$inferSelect;
+
+export type InsertTranscriptionRevision = typeof transcriptionRevisions.$inferInsert;
+export type TranscriptionRevision = typeof transcriptionRevisions.$inferSelect;
+
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type Analysis = typeof analyses.$inferSelect;
 